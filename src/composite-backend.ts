@@ -0,0 +1,189 @@
+// src/composite-backend.ts
+// SearchBackend that fans a request out to several backends (memories, docs,
+// tasks, conversations…) and merges their results with reciprocal rank fusion.
+
+import { ValidationError } from './errors.js';
+import {
+  compareRanked,
+  paginate,
+  rankingDepth,
+  resolvePosition,
+  searchWithMeta,
+  type FacetCount,
+  type RankKey,
+  type SearchBackend,
+  type SearchFacets,
+  type SearchItem,
+  type SearchRequest,
+  type SearchResponse,
+} from './search.js';
+
+export type RegisteredBackend = {
+  name: string;          // shown in degraded messages and explain info
+  backend: SearchBackend;
+  kinds: string[];       // SearchItem.kind values this backend can return
+  weight?: number;       // multiplier on its RRF contribution (default: 1)
+};
+
+export type CompositeBackendOptions = {
+  rrfK?: number;         // RRF damping constant (default: 60)
+};
+
+export class CompositeSearchBackend implements SearchBackend {
+  private backends: RegisteredBackend[] = [];
+  private rrfK: number;
+
+  constructor(backends: RegisteredBackend[] = [], options: CompositeBackendOptions = {}) {
+    this.backends = [...backends];
+    this.rrfK = options.rrfK ?? 60;
+  }
+
+  register(entry: RegisteredBackend) {
+    this.backends = this.backends.filter((b) => b.name !== entry.name);
+    this.backends.push(entry);
+  }
+
+  async search(req: SearchRequest): Promise<SearchItem[]> {
+    return (await this.searchWithMeta(req)).items;
+  }
+
+  async searchWithMeta(req: SearchRequest): Promise<SearchResponse> {
+    const started = Date.now();
+    const mode = req.mode ?? 'hybrid';
+    const limit = req.limit ?? 20;
+    const position = resolvePosition(req);
+    const depth = rankingDepth(position, limit);
+
+    // Only ask backends that can return one of the requested kinds, and only for those kinds.
+    const targets = this.backends
+      .map((b) => ({ ...b, kinds: req.kinds?.length ? b.kinds.filter((k) => req.kinds!.includes(k)) : b.kinds }))
+      .filter((b) => b.kinds.length);
+
+    // A single backend with its own envelope pages its own results, in its own
+    // order (newest first when listing by filters only).
+    if (targets.length === 1 && targets[0].backend.searchWithMeta && !req.explain) {
+      return this.forward(targets[0], req);
+    }
+
+    // Each backend ranks at the session's time, so resumed pages fuse the same lists.
+    const settled = await Promise.allSettled(targets.map((b) =>
+      searchWithMeta(b.backend, { ...req, kinds: b.kinds, limit: depth, offset: undefined, cursor: undefined, asOf: position.asOf })));
+
+    // A bad request (e.g. an invalid date) is the caller's error, not a failing source.
+    const invalid = settled.find((s): s is PromiseRejectedResult => s.status === 'rejected' && s.reason instanceof ValidationError);
+    if (invalid) throw invalid.reason;
+
+    const responses: { target: RegisteredBackend; response: SearchResponse }[] = [];
+    const failures: string[] = [];
+    settled.forEach((s, i) => {
+      if (s.status === 'fulfilled') responses.push({ target: targets[i], response: s.value });
+      else failures.push(`${targets[i].name}: ${s.reason?.message ?? s.reason}`);
+    });
+
+    // A single failing source should not take global search down; all of them failing should.
+    if (targets.length && !responses.length) {
+      throw new Error(`All search backends failed (${failures.join('; ')})`);
+    }
+
+    const fused = this.fuse(responses, !!req.explain);
+    const { page, nextCursor } = paginate(req, fused, position, limit, itemKey);
+    const degraded = [
+      ...responses.filter((r) => r.response.degraded).map((r) => `${r.target.name}: ${r.response.degraded}`),
+      ...failures,
+    ];
+
+    return {
+      items: page,
+      took_ms: Date.now() - started,
+      mode_requested: mode,
+      mode_used: responses.find((r) => r.response.mode_used !== mode)?.response.mode_used ?? mode,
+      total_candidates: responses.reduce((sum, r) => sum + r.response.total_candidates, 0),
+      degraded: degraded.length ? degraded.join('; ') : undefined,
+      facets: req.facets ? mergeFacets(responses.map((r) => r.response.facets)) : undefined,
+      next_cursor: nextCursor,
+    };
+  }
+
+  private async forward(target: RegisteredBackend, req: SearchRequest): Promise<SearchResponse> {
+    try {
+      const response = await searchWithMeta(target.backend, { ...req, kinds: target.kinds });
+      return { ...response, degraded: response.degraded ? `${target.name}: ${response.degraded}` : undefined };
+    } catch (err: any) {
+      if (err instanceof ValidationError) throw err;
+      throw new Error(`All search backends failed (${target.name}: ${err?.message ?? err})`);
+    }
+  }
+
+  // RRF: score = Σ weight / (rrfK + rank) over the lists an item appears in.
+  // Raw backend scores are not comparable (bm25 vs cosine vs …), ranks are.
+  private fuse(responses: { target: RegisteredBackend; response: SearchResponse }[], explain: boolean): SearchItem[] {
+    // A single list needs no fusion; keep the backend's own scores.
+    if (responses.length === 1 && !explain) return responses[0].response.items;
+
+    const merged = new Map<string, { item: SearchItem; score: number; ranks: Record<string, number> }>();
+
+    for (const { target, response } of responses) {
+      const weight = target.weight ?? 1;
+      response.items.forEach((item, i) => {
+        const key = `${item.kind}:${item.id}`;
+        const entry = merged.get(key) ?? { item, score: 0, ranks: {} };
+        entry.score += weight / (this.rrfK + i + 1);
+        entry.ranks[target.name] = i + 1;
+        merged.set(key, entry);
+      });
+    }
+
+    return Array.from(merged.values())
+      .map(({ item, score, ranks }) => ({
+        ...item,
+        score,
+        explain: explain ? { mode: item.explain?.mode ?? 'hybrid', ...item.explain, rrf_ranks: ranks } : item.explain,
+      }))
+      .sort((a, b) => compareRanked(itemKey(a), itemKey(b)));
+  }
+
+  // First backend that knows the id wins.
+  async findSimilar(id: string, limit?: number): Promise<SearchItem[] | null> {
+    for (const { backend } of this.backends) {
+      const similar = await backend.findSimilar?.(id, limit);
+      if (similar) return similar;
+    }
+    return null;
+  }
+
+  async getCategories(): Promise<{ tag: string; count: number }[]> {
+    const counts = new Map<string, number>();
+    for (const { backend } of this.backends) {
+      for (const c of (await backend.getCategories?.()) ?? []) {
+        counts.set(c.tag, (counts.get(c.tag) ?? 0) + c.count);
+      }
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count);
+  }
+}
+
+// Ids are only unique within a kind.
+function itemKey(item: SearchItem): RankKey {
+  return { score: item.score, id: `${item.kind}:${item.id}` };
+}
+
+function mergeCounts(lists: FacetCount[][], max = 20): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const list of lists) {
+    for (const c of list) counts.set(c.value, (counts.get(c.value) ?? 0) + c.count);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, max);
+}
+
+function mergeFacets(all: (SearchFacets | undefined)[]): SearchFacets {
+  const facets = all.filter((f): f is SearchFacets => !!f);
+  return {
+    source: mergeCounts(facets.map((f) => f.source)),
+    tag: mergeCounts(facets.map((f) => f.tag)),
+    // Kept in the memory backend's order: chronological, newest first.
+    month: mergeCounts(facets.map((f) => f.month), 24).sort((a, b) => b.value.localeCompare(a.value)),
+    entity: mergeCounts(facets.map((f) => f.entity)),
+  };
+}
@@ -0,0 +1,393 @@
+// src/docs-backend.ts
+// Local document index (kind 'doc'): notes and source files from directories
+// registered in settings, chunked by lines into ClawScope's own SQLite store
+// (never the memory plugin's database), with FTS5 and optional embeddings.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+
+import { ValidationError } from './errors.js';
+import { defaultStorePath, openLocalStore } from './local-store.js';
+import { cosineSimilarity, decodeEmbedding } from './memory-ranking.js';
+import { compareRanked, paginate, rankingDepth, resolvePosition, type RankKey, type SearchBackend, type SearchItem, type SearchRequest, type SearchResponse } from './search.js';
+import { buildSnippet, queryTerms } from './snippet.js';
+
+export type DocsBackendOptions = {
+  dbPath?: string;           // default: ~/.openclaw/clawscope/clawscope.sqlite
+  extensions?: string[];     // indexed file extensions (default: DEFAULT_DOC_EXTENSIONS)
+  maxFileBytes?: number;     // larger files are skipped
+  chunkLines?: number;       // max lines per chunk
+  chunkChars?: number;       // max characters per chunk
+  semanticWeight?: number;   // 0..1, weight of embedding score in hybrid
+  // Embeds a chunk or a query; null when the embedding service is unavailable.
+  embed?: (text: string) => Promise<number[] | null>;
+};
+
+export type DocsIndexReport = {
+  files: number;     // files seen under the registered directories
+  indexed: number;   // new or modified files (re)chunked
+  removed: number;   // files no longer present (or whose directory was unregistered)
+  chunks: number;    // total chunks in the index
+  embedded: number;  // chunks that got an embedding during this run
+  took_ms: number;
+  errors: string[];
+};
+
+// Notes, then common source and config files: agent workspaces hold scripts
+// and code as much as markdown.
+export const DEFAULT_DOC_EXTENSIONS = [
+  '.md', '.mdx', '.markdown', '.txt', '.rst', '.org', '.adoc',
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php',
+  '.c', '.h', '.cpp', '.hpp', '.cs', '.swift', '.sh', '.sql', '.yaml', '.yml', '.toml',
+];
+
+const SKIP_DIRS = new Set(['node_modules', 'dist', 'build', 'target', 'venv', '__pycache__']);
+
+export class DocsSearchBackend implements SearchBackend {
+  private cfg: Required<Omit<DocsBackendOptions, 'embed'>>;
+  private embed?: DocsBackendOptions['embed'];
+  private db?: Database.Database;
+
+  constructor(options: DocsBackendOptions = {}) {
+    this.cfg = {
+      dbPath: options.dbPath ?? defaultStorePath(),
+      extensions: options.extensions ?? DEFAULT_DOC_EXTENSIONS,
+      maxFileBytes: options.maxFileBytes ?? 1_000_000,
+      chunkLines: options.chunkLines ?? 40,
+      chunkChars: options.chunkChars ?? 1500,
+      semanticWeight: options.semanticWeight ?? 0.7,
+    };
+    this.embed = options.embed;
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const db = openLocalStore(this.cfg.dbPath);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS doc_files (
+        path TEXT PRIMARY KEY,
+        root TEXT NOT NULL,
+        mtime_ms INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        indexed_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS doc_chunks (
+        id INTEGER PRIMARY KEY,
+        path TEXT NOT NULL,
+        start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        embedding BLOB
+      );
+      CREATE INDEX IF NOT EXISTS doc_chunks_path ON doc_chunks(path);
+      CREATE VIRTUAL TABLE IF NOT EXISTS doc_chunks_fts USING fts5(text, path, content='doc_chunks', content_rowid='id');
+      CREATE TRIGGER IF NOT EXISTS doc_chunks_ai AFTER INSERT ON doc_chunks BEGIN
+        INSERT INTO doc_chunks_fts(rowid, text, path) VALUES (new.id, new.text, new.path);
+      END;
+      CREATE TRIGGER IF NOT EXISTS doc_chunks_ad AFTER DELETE ON doc_chunks BEGIN
+        INSERT INTO doc_chunks_fts(doc_chunks_fts, rowid, text, path) VALUES ('delete', old.id, old.text, old.path);
+      END;
+    `);
+    this.db = db;
+    return db;
+  }
+
+  // Incremental: only new or modified files are re-chunked; files that
+  // disappeared (or whose directory is no longer registered) are dropped.
+  // `extensions` overrides the configured list for this run; files it no longer
+  // covers are removed from the index.
+  async reindex(dirs: string[], options: { embed?: boolean; extensions?: string[] } = {}): Promise<DocsIndexReport> {
+    const started = Date.now();
+    const extensions = options.extensions?.length ? options.extensions.map(normalizeExtension).filter(Boolean) : this.cfg.extensions;
+    const db = this.open();
+    const report: DocsIndexReport = { files: 0, indexed: 0, removed: 0, chunks: 0, embedded: 0, took_ms: 0, errors: [] };
+
+    const known = new Map<string, { mtime_ms: number; size: number }>();
+    for (const row of db.prepare('SELECT path, mtime_ms, size FROM doc_files').all() as any[]) {
+      known.set(row.path, row);
+    }
+
+    const deleteChunks = db.prepare('DELETE FROM doc_chunks WHERE path = ?');
+    const deleteFile = db.prepare('DELETE FROM doc_files WHERE path = ?');
+    const insertChunk = db.prepare('INSERT INTO doc_chunks (path, start_line, end_line, text) VALUES (?, ?, ?, ?)');
+    const upsertFile = db.prepare(`
+      INSERT INTO doc_files (path, root, mtime_ms, size, indexed_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET root = excluded.root, mtime_ms = excluded.mtime_ms, size = excluded.size, indexed_at = excluded.indexed_at
+    `);
+    const replaceFile = db.transaction((file: string, root: string, stat: fs.Stats, chunks: DocChunk[]) => {
+      deleteChunks.run(file);
+      for (const c of chunks) insertChunk.run(file, c.startLine, c.endLine, c.text);
+      upsertFile.run(file, root, Math.floor(stat.mtimeMs), stat.size, new Date().toISOString());
+    });
+
+    const seen = new Set<string>();
+    for (const dir of dirs) {
+      const root = resolveDir(dir);
+      if (!fs.existsSync(root)) {
+        report.errors.push(`Directory not found: ${dir}`);
+        continue;
+      }
+
+      for (const file of this.listFiles(root, extensions, report.errors)) {
+        if (seen.has(file)) continue;
+        seen.add(file);
+        report.files++;
+
+        try {
+          const stat = fs.statSync(file);
+          if (stat.size > this.cfg.maxFileBytes) continue;
+          const prev = known.get(file);
+          if (prev && prev.mtime_ms === Math.floor(stat.mtimeMs) && prev.size === stat.size) continue;
+
+          const text = fs.readFileSync(file, 'utf8');
+          replaceFile(file, root, stat, chunkText(text, this.cfg.chunkLines, this.cfg.chunkChars));
+          report.indexed++;
+        } catch (err: any) {
+          report.errors.push(`${file}: ${err?.message ?? err}`);
+        }
+      }
+    }
+
+    for (const file of known.keys()) {
+      if (seen.has(file)) continue;
+      db.transaction(() => {
+        deleteChunks.run(file);
+        deleteFile.run(file);
+      })();
+      report.removed++;
+    }
+
+    // Also picks up chunks left without a vector by an earlier run.
+    if (options.embed && this.embed) {
+      const pending = db.prepare('SELECT id, text FROM doc_chunks WHERE embedding IS NULL ORDER BY id').all() as any[];
+      const setEmbedding = db.prepare('UPDATE doc_chunks SET embedding = ? WHERE id = ?');
+      for (const chunk of pending) {
+        const vec = await this.embed(chunk.text);
+        if (!vec) {
+          report.errors.push(`Embedding unavailable; ${pending.length - report.embedded} chunks left without embeddings`);
+          break;
+        }
+        setEmbedding.run(Buffer.from(new Float32Array(vec).buffer), chunk.id);
+        report.embedded++;
+      }
+    }
+
+    report.chunks = (db.prepare('SELECT COUNT(*) AS n FROM doc_chunks').get() as any).n;
+    report.took_ms = Date.now() - started;
+    return report;
+  }
+
+  stats(): { files: number; chunks: number; embedded: number } {
+    const db = this.open();
+    const files = (db.prepare('SELECT COUNT(*) AS n FROM doc_files').get() as any).n;
+    const chunks = db.prepare('SELECT COUNT(*) AS n, COUNT(embedding) AS embedded FROM doc_chunks').get() as any;
+    return { files, chunks: chunks.n, embedded: chunks.embedded };
+  }
+
+  private listFiles(root: string, extensions: string[], errors: string[]): string[] {
+    const out: string[] = [];
+    const walk = (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch (err: any) {
+        errors.push(`${dir}: ${err?.message ?? err}`);
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!SKIP_DIRS.has(entry.name)) walk(full);
+        } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+          out.push(full);
+        }
+      }
+    };
+    walk(root);
+    return out;
+  }
+
+  async search(req: SearchRequest): Promise<SearchItem[]> {
+    return (await this.searchWithMeta(req)).items;
+  }
+
+  async searchWithMeta(req: SearchRequest): Promise<SearchResponse> {
+    const started = Date.now();
+    const mode = req.mode ?? 'hybrid';
+    const limit = req.limit ?? 20;
+    const position = resolvePosition(req);
+    const respond = (items: SearchItem[], candidates: number, extra: Partial<SearchResponse> = {}): SearchResponse => ({
+      items,
+      took_ms: Date.now() - started,
+      mode_requested: mode,
+      mode_used: mode,
+      total_candidates: candidates,
+      ...extra,
+    });
+
+    if (req.kinds?.length && !req.kinds.includes('doc')) return respond([], 0);
+    // Docs carry no tags or entity, and all share the 'docs' source.
+    if (req.tags?.length || req.entityId) return respond([], 0);
+    if (req.sources?.length && !req.sources.some((s) => s.trim().toLowerCase() === 'docs')) return respond([], 0);
+
+    // Phrases rank like query words, so a phrase-only query (e.g. phrases set
+    // through the API with an empty q) still has terms.
+    const terms = queryTerms([req.query, ...(req.phrases ?? [])].join(' '));
+    if (!terms.length) return respond([], 0);
+
+    const depth = Math.max(req.k ?? 80, rankingDepth(position, limit));
+    const db = this.open();
+    const filter = docFilter(req);
+
+    const queryVec = mode !== 'lexical' && this.embed ? await this.embed(req.query.trim() || (req.phrases ?? []).join(' ')) : null;
+    // Embeddings down (or no embedder): serve lexical results, flagged like memory search does.
+    const fallback: Partial<SearchResponse> = mode !== 'lexical' && !queryVec
+      ? { mode_used: 'lexical', degraded: 'Embeddings unavailable; results are lexical-only' }
+      : {};
+
+    let ranked: { row: any; score: number; lexical?: number; semantic?: number }[];
+    if (queryVec && mode === 'semantic') {
+      const rows = db.prepare(`
+        SELECT c.*, f.root, f.mtime_ms
+        FROM doc_chunks c
+        JOIN doc_files f ON f.path = c.path
+        WHERE c.embedding IS NOT NULL${filter.sql}
+      `).all(...filter.params) as any[];
+      ranked = rows.map((row) => {
+        const vec = decodeEmbedding(row.embedding);
+        const semantic = vec ? cosineSimilarity(queryVec, vec) : 0;
+        return { row, score: semantic, semantic };
+      });
+    } else {
+      // Prefix match on any term; bm25 favours chunks matching more of them.
+      const match = terms.map((t) => `"${t}"*`).join(' OR ');
+      const rows = db.prepare(`
+        SELECT c.*, f.root, f.mtime_ms, bm25(doc_chunks_fts) AS fts_rank
+        FROM doc_chunks_fts
+        JOIN doc_chunks c ON c.id = doc_chunks_fts.rowid
+        JOIN doc_files f ON f.path = c.path
+        WHERE doc_chunks_fts MATCH ?${filter.sql}
+        ORDER BY bm25(doc_chunks_fts), c.id
+        LIMIT ?
+      `).all(match, ...filter.params, depth) as any[];
+
+      const maxLexical = Math.max(...rows.map((r) => -Number(r.fts_rank) || 0), 0) || 1;
+      const w = this.cfg.semanticWeight;
+      ranked = rows.map((row) => {
+        const lexical = -Number(row.fts_rank) || 0;
+        const vec = queryVec ? decodeEmbedding(row.embedding) : null;
+        const semantic = vec ? cosineSimilarity(queryVec!, vec) : undefined;
+        const score = queryVec ? w * (semantic ?? 0) + (1 - w) * (lexical / maxLexical) : lexical;
+        return { row, score, lexical, semantic };
+      });
+    }
+
+    const key = (r: { row: any; score: number }): RankKey => ({ score: r.score, id: `doc:${r.row.id}` });
+    ranked.sort((a, b) => compareRanked(key(a), key(b)));
+
+    const { page, nextCursor } = paginate(req, ranked, position, limit, key);
+    const items = page.map(({ row, score, lexical, semantic }) => {
+      const { snippet, highlights } = buildSnippet(row.text, terms);
+      const relative = path.relative(row.root, row.path) || path.basename(row.path);
+      return {
+        id: `doc:${row.id}`,
+        kind: 'doc',
+        source: 'docs',
+        title: `${relative}:${row.start_line}-${row.end_line}`,
+        snippet,
+        highlights,
+        score,
+        score_fts: lexical,
+        score_embed: semantic,
+        created_at: new Date(row.mtime_ms).toISOString(),
+        payload: {
+          path: row.path,
+          root: row.root,
+          start_line: row.start_line,
+          end_line: row.end_line,
+          text: row.text,
+        },
+      } satisfies SearchItem;
+    });
+    return respond(items, ranked.length, { ...fallback, next_cursor: nextCursor });
+  }
+}
+
+// "ts", ".TS" and "*.ts" all mean ".ts".
+function normalizeExtension(ext: string): string {
+  const bare = String(ext).trim().toLowerCase().replace(/^\*?\.?/, '');
+  return bare ? `.${bare}` : '';
+}
+
+type DocChunk = { startLine: number; endLine: number; text: string };
+
+// Line-based chunks (1-based, inclusive line ranges). A markdown heading starts
+// a new chunk so that sections stay together when they fit.
+export function chunkText(text: string, maxLines = 40, maxChars = 1500): DocChunk[] {
+  const lines = text.split(/\r?\n/);
+  const chunks: DocChunk[] = [];
+  let current: string[] = [];
+  let start = 1;
+  let chars = 0;
+
+  const flush = (endLine: number) => {
+    const next = endLine + 1;
+    while (current.length && !current[current.length - 1].trim()) {
+      current.pop();
+      endLine--;
+    }
+    if (current.length) chunks.push({ startLine: start, endLine, text: current.join('\n') });
+    current = [];
+    chars = 0;
+    start = next;
+  };
+
+  lines.forEach((line, i) => {
+    const lineNo = i + 1;
+    const heading = /^#{1,6}\s/.test(line);
+    if (current.length && (heading || current.length >= maxLines || chars + line.length > maxChars)) {
+      flush(lineNo - 1);
+    }
+    current.push(line);
+    chars += line.length + 1;
+  });
+  if (current.length) flush(lines.length);
+
+  return chunks;
+}
+
+function resolveDir(dir: string): string {
+  const expanded = dir.startsWith('~') ? path.join(os.homedir(), dir.slice(1)) : dir;
+  return path.resolve(expanded);
+}
+
+// since/until apply to the file modification time; phrases and exclusions go
+// through the FTS index like for memories.
+function docFilter(req: SearchRequest): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [value, op, name] of [[req.since, '>=', 'since'], [req.until, '<', 'until']] as const) {
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw new ValidationError(`Invalid ${name} date: ${value}`);
+    clauses.push(`f.mtime_ms ${op} ?`);
+    params.push(date.getTime());
+  }
+
+  for (const phrase of req.phrases ?? []) {
+    clauses.push('c.id IN (SELECT rowid FROM doc_chunks_fts WHERE doc_chunks_fts MATCH ?)');
+    params.push('"' + phrase.replace(/"/g, '""') + '"');
+  }
+
+  for (const term of req.exclude ?? []) {
+    clauses.push('c.id NOT IN (SELECT rowid FROM doc_chunks_fts WHERE doc_chunks_fts MATCH ?)');
+    params.push('"' + term.replace(/"/g, '""') + '"');
+  }
+
+  return { sql: clauses.map((c) => ` AND ${c}`).join(''), params };
+}
@@ -0,0 +1,129 @@
+// src/embedding-cache.ts
+// Query embedding cache: an in-memory LRU in front of a table in ClawScope's
+// local store, keyed by embedding model + normalized query. The table is shared
+// by the dashboard and the MCP server, and survives restarts.
+
+import type Database from 'better-sqlite3';
+
+import { openLocalStore } from './local-store.js';
+
+export type EmbeddingCacheOptions = {
+  dbPath?: string;         // local store (default ~/.openclaw/clawscope/clawscope.sqlite)
+  maxEntries?: number;     // in-memory LRU size
+  maxDiskEntries?: number; // rows kept on disk, least recently used dropped first
+  persist?: boolean;       // false: memory only
+};
+
+export type EmbeddingCacheStats = {
+  hits: number;
+  misses: number;
+  memory_hits: number;
+  disk_hits: number;
+  entries: number;         // in memory
+};
+
+// Only whitespace is normalized: embedding models are case-sensitive, so
+// "Apple" and "apple" get different vectors.
+export function normalizeQuery(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+export class EmbeddingCache {
+  private db?: Database.Database;
+  private lru = new Map<string, number[]>();
+  private counters = { hits: 0, misses: 0, memory_hits: 0, disk_hits: 0 };
+  private writes = 0;
+
+  constructor(private options: EmbeddingCacheOptions = {}) {}
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const db = openLocalStore(this.options.dbPath);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS query_embedding_cache (
+        model TEXT NOT NULL,
+        query TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        used_at TEXT NOT NULL,
+        PRIMARY KEY (model, query)
+      );
+    `);
+    this.db = db;
+    return db;
+  }
+
+  get(model: string, query: string): number[] | undefined {
+    const key = cacheKey(model, query);
+    const cached = this.lru.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      this.counters.hits++;
+      this.counters.memory_hits++;
+      return cached;
+    }
+
+    const stored = this.readDisk(model, normalizeQuery(query));
+    if (stored) {
+      this.remember(key, stored);
+      this.counters.hits++;
+      this.counters.disk_hits++;
+      return stored;
+    }
+
+    this.counters.misses++;
+    return undefined;
+  }
+
+  set(model: string, query: string, vec: number[]) {
+    this.remember(cacheKey(model, query), vec);
+    if (this.options.persist === false) return;
+
+    try {
+      const db = this.open();
+      db.prepare(`
+        INSERT INTO query_embedding_cache (model, query, embedding, used_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(model, query) DO UPDATE SET embedding = excluded.embedding, used_at = excluded.used_at
+      `).run(model, normalizeQuery(query), Buffer.from(new Float32Array(vec).buffer), new Date().toISOString());
+
+      // Trimming scans the table; do it every 100 writes rather than on each.
+      if (++this.writes % 100 === 0) {
+        db.prepare('DELETE FROM query_embedding_cache WHERE rowid NOT IN (SELECT rowid FROM query_embedding_cache ORDER BY used_at DESC LIMIT ?)')
+          .run(this.options.maxDiskEntries ?? 5000);
+      }
+    } catch (err: any) {
+      // The cache is an optimisation: a failing store must not fail searches.
+      console.error('[EmbeddingCache] Write failed:', err?.message ?? err);
+    }
+  }
+
+  stats(): EmbeddingCacheStats {
+    return { ...this.counters, entries: this.lru.size };
+  }
+
+  private readDisk(model: string, query: string): number[] | null {
+    if (this.options.persist === false) return null;
+    try {
+      const db = this.open();
+      const row = db.prepare('SELECT embedding FROM query_embedding_cache WHERE model = ? AND query = ?').get(model, query) as any;
+      if (!row) return null;
+      db.prepare('UPDATE query_embedding_cache SET used_at = ? WHERE model = ? AND query = ?').run(new Date().toISOString(), model, query);
+      // Copy first: the returned Buffer may not be 4-byte aligned.
+      return Array.from(new Float32Array(new Uint8Array(row.embedding).buffer));
+    } catch (err: any) {
+      console.error('[EmbeddingCache] Read failed:', err?.message ?? err);
+      return null;
+    }
+  }
+
+  // Map order is recency order: re-inserting moves a key to the end.
+  private remember(key: string, vec: number[]) {
+    this.lru.delete(key);
+    this.lru.set(key, vec);
+    if (this.lru.size > (this.options.maxEntries ?? 500)) this.lru.delete(this.lru.keys().next().value!);
+  }
+}
+
+function cacheKey(model: string, query: string): string {
+  return `${model}\u0000${normalizeQuery(query)}`;
+}
@@ -0,0 +1,154 @@
+// src/embedding-provider.ts
+// Where query (and doc chunk) embeddings come from. Ollama is the default, as
+// in the memory plugin; any OpenAI-compatible server (llama.cpp, LM Studio,
+// vLLM, LocalAI…) works too, and the hashing embedder needs no service at all.
+
+export interface EmbeddingProvider {
+  readonly name: string;                 // provider + model, e.g. 'ollama:bge-m3'
+  embed(text: string): Promise<number[]>; // throws with a message fit for `degraded`
+  // Local providers only: stored items without a comparable vector are then
+  // embedded on the fly, so semantic search covers them too.
+  embedSync?(text: string): number[];
+}
+
+export type HttpEmbeddingOptions = {
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+};
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+  private timeoutMs: number;
+
+  constructor(options: HttpEmbeddingOptions = {}) {
+    this.baseUrl = options.baseUrl ?? 'http://127.0.0.1:11434';
+    this.model = options.model ?? 'bge-m3';
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.name = `ollama:${this.model}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const data = await postJson('Ollama', new URL('/api/embeddings', this.baseUrl), { model: this.model, prompt: text }, this.timeoutMs);
+    if (!Array.isArray(data?.embedding)) throw new Error(`Ollama at ${this.baseUrl} returned no embedding`);
+    return data.embedding;
+  }
+}
+
+// POST {baseUrl}/embeddings with { model, input }, as in the OpenAI API.
+// baseUrl includes the version prefix, e.g. http://127.0.0.1:8080/v1.
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private model: string;
+  private timeoutMs: number;
+  private apiKey?: string;
+
+  constructor(options: HttpEmbeddingOptions & { apiKey?: string } = {}) {
+    this.baseUrl = (options.baseUrl ?? 'http://127.0.0.1:8080/v1').replace(/\/+$/, '');
+    this.model = options.model ?? 'text-embedding';
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.apiKey = options.apiKey;
+    this.name = `openai:${this.model}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const headers = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined;
+    const data = await postJson('Embedding server', `${this.baseUrl}/embeddings`, { model: this.model, input: text }, this.timeoutMs, headers);
+    const vec = data?.data?.[0]?.embedding;
+    if (!Array.isArray(vec)) throw new Error(`Embedding server at ${this.baseUrl} returned no embedding`);
+    return vec;
+  }
+}
+
+// Feature hashing over words and character trigrams: deterministic, instant
+// and offline. Texts sharing words or word fragments score higher; there is no
+// notion of synonyms. Meant for tests, demos and machines without a model.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private dimensions = 384) {
+    this.name = `hashing:${dimensions}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.embedSync(text);
+  }
+
+  embedSync(text: string): number[] {
+    const vec = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = fnv1a(feature);
+      vec[h % this.dimensions] += (h & 0x80000000) ? -weight : weight;
+    };
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+
+    const norm = Math.sqrt(vec.reduce((sum, x) => sum + x * x, 0));
+    return norm ? vec.map((x) => x / norm) : vec;
+  }
+}
+
+// CLAWSCOPE_EMBEDDINGS=ollama|openai|hashing (default ollama), with
+// CLAWSCOPE_EMBEDDINGS_URL, _MODEL, _API_KEY and _DIM (hashing).
+export function embeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const kind = (env.CLAWSCOPE_EMBEDDINGS || 'ollama').toLowerCase();
+  const options = {
+    baseUrl: env.CLAWSCOPE_EMBEDDINGS_URL || undefined,
+    model: env.CLAWSCOPE_EMBEDDINGS_MODEL || undefined,
+    timeoutMs: env.CLAWSCOPE_EMBEDDINGS_TIMEOUT_MS ? parseInt(env.CLAWSCOPE_EMBEDDINGS_TIMEOUT_MS) : undefined,
+  };
+
+  switch (kind) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(options);
+    case 'openai':
+      return new OpenAiEmbeddingProvider({ ...options, apiKey: env.CLAWSCOPE_EMBEDDINGS_API_KEY || undefined });
+    case 'hashing':
+      return new HashingEmbeddingProvider(env.CLAWSCOPE_EMBEDDINGS_DIM ? parseInt(env.CLAWSCOPE_EMBEDDINGS_DIM) : undefined);
+    default:
+      throw new Error(`Unknown CLAWSCOPE_EMBEDDINGS provider: ${kind} (expected ollama, openai or hashing)`);
+  }
+}
+
+async function postJson(label: string, url: string | URL, body: unknown, timeoutMs: number, headers?: Record<string, string>): Promise<any> {
+  const base = new URL(url).origin;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  let resp: Response;
+  try {
+    resp = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    clearTimeout(timeout);
+    if (err?.name === 'AbortError') throw new Error(`${label} at ${base} timed out after ${timeoutMs}ms`);
+    throw new Error(`${label} at ${base} unavailable (${err?.message ?? err})`);
+  }
+
+  try {
+    if (!resp.ok) throw new Error(`${label} at ${base} returned ${resp.status}`);
+    return await resp.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// 32-bit FNV-1a over UTF-16 code units.
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
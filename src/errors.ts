@@ -0,0 +1,11 @@
+// src/errors.ts
+// Errors caused by the caller's input: an invalid date, mode or cursor, a
+// malformed request body… HTTP routes answer them with 400 and the message;
+// any other error is a 500.
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,45 @@
+// src/eval-search.ts
+// Search quality evaluation from the command line (npm run eval):
+//   node dist/eval-search.js [golden.json] [--cutoff 10] [--json]
+// The golden set defaults to clawscope.golden.json (CLAWSCOPE_GOLDEN_PATH).
+
+import path from 'node:path';
+
+import { embeddingProviderFromEnv } from './embedding-provider.js';
+import { loadLocalSettings } from './local-settings.js';
+import { closeLocalStores } from './local-store.js';
+import { closeMemoryDbs } from './memory-db.js';
+import { formatEvalReport, loadGoldenSet, memoryBackendsByWeight, runEval } from './search-eval.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(name);
+    return i === -1 ? undefined : args.splice(i, 2)[1];
+  };
+  const json = args.includes('--json');
+  const cutoffArg = flag('--cutoff');
+  const positional = args.filter((a) => !a.startsWith('--'));
+
+  const settings = loadLocalSettings();
+  const goldenPath = positional[0] || process.env.CLAWSCOPE_GOLDEN_PATH || path.join(process.cwd(), 'clawscope.golden.json');
+  const cutoff = cutoffArg ? parseInt(cutoffArg) : settings.topK || 10;
+
+  const report = await runEval(loadGoldenSet(goldenPath), memoryBackendsByWeight({
+    dbPath: process.env.OPENCLAW_MEMORY_DB || undefined,
+    embeddingProvider: embeddingProviderFromEnv(),
+    rerank: () => settings.rerank,
+  }), { cutoff });
+
+  console.log(json ? JSON.stringify(report, null, 2) : formatEvalReport(report));
+}
+
+main()
+  .catch((err) => {
+    console.error('[Eval]', err?.message ?? err);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    closeMemoryDbs();
+    closeLocalStores();
+  });
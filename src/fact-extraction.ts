@@ -0,0 +1,68 @@
+// src/fact-extraction.ts
+// Rebuilds the knowledge-graph facts from every memory through the writer
+// connection: each item's facts are replaced, and items with facts get the
+// 'fact' tag.
+
+import crypto from 'node:crypto';
+
+import { deleteFactsBySourceItem, extractFactsSimple, insertFact } from '@akashabot/openclaw-memory-offline-core';
+
+import { getMemoryWriter } from './memory-db.js';
+
+export type FactExtractionReport = {
+  itemsProcessed: number;
+  factsInserted: number;
+  tagsUpdated: number;
+};
+
+export function extractAllFacts(dbPath?: string): FactExtractionReport {
+  const db = getMemoryWriter(dbPath);
+
+  const rows = db.prepare('SELECT id, text, entity_id, created_at FROM items').all() as any[];
+  let factsInserted = 0;
+  let itemsProcessed = 0;
+
+  for (const row of rows) {
+    const text = String(row.text || '');
+    if (!text.trim()) continue;
+    const entityId = row.entity_id || undefined;
+
+    // replace existing facts for this item
+    deleteFactsBySourceItem(db, String(row.id));
+
+    const facts = extractFactsSimple(text, entityId);
+    for (const f of facts) {
+      insertFact(db, {
+        id: crypto.randomUUID(),
+        created_at: row.created_at || Date.now(),
+        subject: f.subject,
+        predicate: f.predicate,
+        object: f.object,
+        confidence: f.confidence,
+        source_item_id: String(row.id),
+        entity_id: entityId,
+      });
+      factsInserted++;
+    }
+    itemsProcessed++;
+  }
+
+  // Tag items with facts
+  const factRows = db.prepare('SELECT DISTINCT source_item_id as id FROM facts WHERE source_item_id IS NOT NULL').all() as any[];
+  const selectTags = db.prepare('SELECT tags FROM items WHERE id = ?');
+  const updateTags = db.prepare('UPDATE items SET tags = ? WHERE id = ?');
+  let tagsUpdated = 0;
+  for (const r of factRows) {
+    const id = String(r.id);
+    const item = selectTags.get(id) as { tags?: string } | undefined;
+    if (!item) continue;
+    const tags = (item.tags || '').split(',').map((t) => t.trim()).filter(Boolean);
+    if (!tags.includes('fact')) {
+      tags.push('fact');
+      updateTags.run(tags.join(','), id);
+      tagsUpdated++;
+    }
+  }
+
+  return { itemsProcessed, factsInserted, tagsUpdated };
+}
@@ -0,0 +1,101 @@
+// src/facts-backend.ts
+// SearchBackend over the knowledge-graph `facts` table: returns
+// subject/predicate/object triples as SearchItems of kind 'fact', linked back
+// to the memory they were extracted from.
+
+import { defaultDbPath, getMemoryDb, prepareCached } from './memory-db.js';
+import { compareRanked, paginate, resolvePosition, type RankKey, type SearchBackend, type SearchItem, type SearchRequest } from './search.js';
+import { buildItemFilter } from './offline-sqlite-backend.js';
+import { buildSnippet, queryTerms } from './snippet.js';
+
+export type FactsBackendOptions = {
+  dbPath?: string;
+  maxCandidates?: number;  // facts scanned per query before scoring
+};
+
+// Question words that never appear in a triple ("who works at Acme").
+const STOPWORDS = new Set([
+  'who', 'what', 'which', 'where', 'when', 'how', 'is', 'are', 'does', 'do', 'the', 'of', 'at', 'in', 'for', 'to', 'and',
+  'qui', 'que', 'quoi', 'où', 'quand', 'est', 'le', 'la', 'les', 'de', 'des', 'du', 'chez', 'et',
+]);
+
+export class FactsSearchBackend implements SearchBackend {
+  private cfg: Required<FactsBackendOptions>;
+
+  constructor(options: FactsBackendOptions = {}) {
+    this.cfg = {
+      dbPath: options.dbPath ?? defaultDbPath(),
+      maxCandidates: options.maxCandidates ?? 1000,
+    };
+  }
+
+  async search(req: SearchRequest): Promise<SearchItem[]> {
+    if (req.kinds?.length && !req.kinds.includes('fact')) return [];
+
+    const limit = req.limit ?? 20;
+    const position = resolvePosition(req);
+    const terms = queryTerms(req.query).filter((t) => !STOPWORDS.has(t));
+    // Memory filters (source:, tag:, after: …) apply to the memory a fact came from.
+    const filter = buildItemFilter(req);
+    if (!terms.length && !filter.sql) return [];
+
+    const db = getMemoryDb(this.cfg.dbPath);
+
+    // Predicates are snake_case ("works_at"); match them as words.
+    const tripleSql = `lower(f.subject || ' ' || replace(f.predicate, '_', ' ') || ' ' || f.object)`;
+    const termSql = terms.length ? ` AND (${terms.map(() => `${tripleSql} LIKE ?`).join(' OR ')})` : '';
+
+    const rows = prepareCached(db, `
+      SELECT f.rowid AS fact_rowid, f.*, i.text AS source_text, i.source AS source_name
+      FROM facts f
+      ${filter.sql ? 'JOIN' : 'LEFT JOIN'} items i ON i.id = f.source_item_id
+      WHERE 1 = 1${termSql}${filter.sql}
+      ORDER BY f.confidence DESC, f.rowid
+      LIMIT ?
+    `).all(...terms.map((t) => `%${t}%`), ...filter.params, this.cfg.maxCandidates) as any[];
+
+    // Share of query terms found in the triple, weighted by extraction confidence.
+    const scored = rows.map((row) => {
+      const text = factText(row);
+      const lower = text.toLowerCase();
+      const matched = terms.filter((t) => lower.includes(t)).length;
+      const confidence = Number(row.confidence ?? 1);
+      const coverage = terms.length ? matched / terms.length : 1;
+      return { row, text, score: coverage * (0.5 + 0.5 * confidence) };
+    });
+
+    const key = (s: { row: any; score: number }): RankKey => ({ score: s.score, id: factId(s.row) });
+    scored.sort((a, b) => compareRanked(key(a), key(b)));
+
+    return paginate(req, scored, position, limit, key).page.map(({ row, text, score }) => {
+      const { snippet, highlights } = buildSnippet(text, terms);
+      return {
+        id: factId(row),
+        kind: 'fact',
+        source: row.source_name ?? 'facts',
+        title: text,
+        snippet,
+        highlights,
+        score,
+        created_at: row.created_at ?? undefined,
+        payload: {
+          fact_id: factId(row),
+          subject: row.subject,
+          predicate: row.predicate,
+          object: row.object,
+          confidence: row.confidence ?? null,
+          source_item_id: row.source_item_id ?? null,
+          source_text: row.source_text ?? null,
+        },
+      } satisfies SearchItem;
+    });
+  }
+}
+
+function factId(row: any): string {
+  return String(row.id ?? row.fact_rowid);
+}
+
+function factText(row: any): string {
+  return `${row.subject} ${String(row.predicate ?? '').replace(/_/g, ' ')} ${row.object}`;
+}
@@ -5,30 +5,78 @@ import http from 'http';
 import os from 'node:os';
 import path from 'node:path';
 import fs from 'node:fs';
-import type { SearchBackend, SearchMode } from './search.js';
-import { getGraphStats, getEntityGraph, getAllFacts, extractFactsSimple, openDb, initSchema, runMigrations } from '@akashabot/openclaw-memory-offline-core';
+import { parseSearchMode, searchWithMeta, type SearchBackend } from './search.js';
+import { applyQuerySyntax, splitList } from './query-syntax.js';
+import { SavedSearchStore, normalizeSearchParams } from './saved-searches.js';
+import { SearchWatcher } from './search-watches.js';
+import { embeddingProviderFromEnv } from './embedding-provider.js';
+import { loadGoldenSet, memoryBackendsByWeight, parseGoldenSet, runEval } from './search-eval.js';
+import { getGraphStats, getEntityGraph, getAllFacts } from '@akashabot/openclaw-memory-offline-core';
+import { extractAllFacts } from './fact-extraction.js';
+import { closeMemoryDbs, getMemoryDb, prepareCached } from './memory-db.js';
+import { loadLocalSettings, saveLocalSettings } from './local-settings.js';
+import { closeLocalStores } from './local-store.js';
+import { ValidationError } from './errors.js';
 
 const { OfflineSqliteSearchBackend } = await import('./offline-sqlite-backend.js');
 const { InMemoryActivityBackend } = await import('./activity-backend.js');
-const { InMemoryTaskBackend } = await import('./tasks-backend.js');
+const { CronJobsTaskBackend } = await import('./tasks-backend.js');
+const { CompositeSearchBackend } = await import('./composite-backend.js');
+const { FactsSearchBackend } = await import('./facts-backend.js');
+const { TaskSearchBackend, SessionSearchBackend } = await import('./tasks-sessions-backend.js');
+const { DocsSearchBackend } = await import('./docs-backend.js');
 
-const backend: SearchBackend = new OfflineSqliteSearchBackend();
 const activityBackend = new InMemoryActivityBackend();
-const taskBackend = new InMemoryTaskBackend();
+// Same source as /tasks.
+const taskBackend = new CronJobsTaskBackend();
 
-let lastExtractAt: number = 0;
+const memoryOptions = {
+  embeddingProvider: embeddingProviderFromEnv(),
+  rerank: () => loadLocalSettings().rerank,
+  embeddingBackoffMs: process.env.CLAWSCOPE_EMBEDDING_BACKOFF_MS ? parseInt(process.env.CLAWSCOPE_EMBEDDING_BACKOFF_MS) : undefined,
+};
+const memoryBackend = new OfflineSqliteSearchBackend(memoryOptions);
+// Doc chunks are embedded with the memory model so that scores are comparable.
+const docsBackend = new DocsSearchBackend({ embed: (text) => memoryBackend.embed(text) });
+
+// Global search: every source registers here with the kinds it returns.
+const backend: SearchBackend = new CompositeSearchBackend([
+  { name: 'memory', kinds: ['memory'], backend: memoryBackend },
+  { name: 'facts', kinds: ['fact'], backend: new FactsSearchBackend() },
+  { name: 'tasks', kinds: ['task'], backend: new TaskSearchBackend(taskBackend) },
+  { name: 'sessions', kinds: ['convo'], backend: new SessionSearchBackend() },
+  { name: 'docs', kinds: ['doc'], backend: docsBackend },
+]);
+
+const savedSearches = new SavedSearchStore();
+// Watches re-run saved searches; the command hook comes from the settings file only.
+const watcher = new SearchWatcher(savedSearches, memoryBackend, {
+  hookCommand: () => loadLocalSettings().watchHookCommand,
+  minSimilarity: () => loadLocalSettings().watchMinSimilarity,
+});
+watcher.start();
+
+// Doc indexing runs one at a time; concurrent requests share the running pass.
+let docsIndexing: Promise<any> | null = null;
+let lastDocsReport: any = null;
+
+function reindexDocs(): Promise<any> {
+  if (docsIndexing) return docsIndexing;
+  const settings = loadLocalSettings();
+  docsIndexing = docsBackend.reindex(settings.docDirs || [], { embed: !!settings.docEmbeddings, extensions: settings.docExtensions })
+    .then((report) => { lastDocsReport = report; return report; })
+    .finally(() => { docsIndexing = null; });
+  return docsIndexing;
+}
 
-// Boot-time bootstrap: attempt to refresh facts from memory on startup
+// Boot-time bootstrap: bring the local docs index up to date
 (async () => {
+  if (!loadLocalSettings().docDirs?.length) return;
   try {
-    const db = openDb(getDbPath());
-    runMigrations(db);
-    initSchema(db);
-    const count = await extractFactsSimple(getDbPath());
-    lastExtractAt = Date.now();
-    console.log('[Boot] Initial facts rebuild completed:', Array.isArray(count) ? count.length : 0, 'entries');
+    const report = await reindexDocs();
+    console.log('[Boot] Docs index updated:', report.indexed, 'files indexed,', report.chunks, 'chunks');
   } catch (err: any) {
-    console.error('[Boot] Initial facts rebuild failed:', err?.message ?? err);
+    console.error('[Boot] Docs indexing failed:', err?.message ?? err);
   }
 })();
 
@@ -257,6 +305,40 @@ body {
 .result-header { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 0.4rem; }
 .result-text { font-size: 0.9rem; color: var(--text-primary); margin-bottom: 0.4rem; }
 .result-meta { font-size: 0.75rem; color: var(--text-muted); display: flex; gap: 0.75rem; }
+.dup-toggle { background: none; border: none; padding: 0; color: var(--accent-blue); font-size: 0.75rem; cursor: pointer; }
+.dup-list { display: none; margin-top: 0.5rem; padding-left: 0.75rem; border-left: 2px solid var(--border); }
+.dup-list.open { display: block; }
+.dup-item { font-size: 0.8rem; color: var(--text-secondary); padding: 0.3rem 0; cursor: pointer; }
+.dup-item:hover { color: var(--text-primary); }
+
+/* Compare modes */
+.compare-overlap { display: flex; gap: 1rem; flex-wrap: wrap; font-size: 0.75rem; color: var(--text-muted); margin-bottom: 0.25rem; }
+.compare-overlap strong { color: var(--text-primary); }
+.compare-grid { display: grid; grid-template-columns: repeat(3, minmax(0, 1fr)); gap: 0.75rem; align-items: start; }
+.compare-col { display: flex; flex-direction: column; gap: 0.5rem; min-width: 0; }
+.compare-head { display: flex; justify-content: space-between; font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: var(--text-secondary); }
+.compare-card { padding: 0.75rem; }
+.compare-card .result-text { font-size: 0.8rem; }
+.compare-rank { font-size: 0.75rem; font-weight: 600; color: var(--text-secondary); }
+.rank-up, .rank-down, .rank-new, .rank-same, .rank-other { font-size: 0.7rem; font-weight: 600; }
+.rank-up { color: var(--accent); }
+.rank-down { color: var(--accent-red); }
+.rank-new { color: var(--accent-blue); }
+.rank-same, .rank-other { color: var(--text-muted); }
+@media (max-width: 1024px) { .compare-grid { grid-template-columns: 1fr; } }
+
+/* Facets */
+.facet-group { margin-bottom: 0.75rem; }
+.facet-group:last-child { margin-bottom: 0; }
+.facet-label { font-size: 0.7rem; text-transform: uppercase; letter-spacing: 0.05em; color: var(--text-muted); margin-bottom: 0.35rem; }
+.tag .facet-count { color: var(--text-muted); margin-left: 0.3rem; }
+
+/* Banner */
+.banner { padding: 0.6rem 1rem; border-radius: var(--radius-md); font-size: 0.8rem; margin-bottom: 0.75rem; }
+.banner-warn { background: rgba(249,115,22,0.12); border: 1px solid rgba(249,115,22,0.4); color: var(--accent-orange); }
+
+/* Highlighted matches */
+mark { background: rgba(34,197,94,0.25); color: var(--text-primary); border-radius: 3px; padding: 0 2px; }
 
 /* Badges */
 .badge {
@@ -273,6 +355,8 @@ body {
 .badge-cron { background: rgba(59,130,246,0.15); color: var(--accent-blue); }
 .badge-alert { background: rgba(239,68,68,0.15); color: var(--accent-red); }
 .badge-tool { background: rgba(168,85,247,0.15); color: var(--accent-purple); }
+.badge-doc { background: rgba(249,115,22,0.12); color: var(--accent-orange); border: 1px solid rgba(249,115,22,0.4); }
+.badge-fact { background: rgba(59,130,246,0.15); color: var(--accent-blue); border: 1px solid rgba(59,130,246,0.4); }
 
 /* List items */
 .list-item { padding: 0.5rem 0; border-bottom: 1px solid var(--border); font-size: 0.85rem; color: var(--text-secondary); }
@@ -418,7 +502,7 @@ ${statusBarHtml}
       <div class="card">
         <div class="card-body">
           <form id="search-form" class="search-box">
-            <input type="text" class="input" id="search-input" placeholder="Search your offline memory..." autofocus />
+            <input type="text" class="input" id="search-input" placeholder="Search your offline memory... (e.g. billing tag:work after:2026-01-01)" autofocus />
             <button type="submit" class="btn btn-primary">Search</button>
           </form>
           <div class="search-filters">
@@ -426,16 +510,44 @@ ${statusBarHtml}
               <option value="hybrid">Hybrid</option>
               <option value="lexical">Lexical</option>
               <option value="semantic">Semantic</option>
+              <option value="compare">Compare modes</option>
+            </select>
+            <select class="select" id="kind-filter">
+              <option value="">All kinds</option>
+              <option value="memory">Memories</option>
+              <option value="fact">Facts</option>
+              <option value="task">Tasks</option>
+              <option value="convo">Sessions</option>
+              <option value="doc">Docs</option>
             </select>
             <input type="text" class="select" id="source-filter" placeholder="Filter source..." style="width:auto" />
+            <input type="text" class="select" id="tag-filter" placeholder="Tags (a,b)..." style="width:auto" />
+            <input type="text" class="select" id="entity-filter" placeholder="Entity..." style="width:auto" />
+            <input type="date" class="select" id="since-filter" title="Created on or after" />
+            <input type="date" class="select" id="until-filter" title="Created before" />
+            <label style="display:flex;align-items:center;gap:0.4rem;font-size:0.75rem;color:var(--text-muted)"><input type="checkbox" id="explain-toggle"> Explain</label>
+            <label style="display:flex;align-items:center;gap:0.4rem;font-size:0.75rem;color:var(--text-muted)"><input type="checkbox" id="dedupe-toggle" checked> Collapse duplicates</label>
           </div>
         </div>
       </div>
+      <div class="banner banner-warn" id="search-banner" style="display:none"></div>
       <div class="results" id="results">
         <div class="empty"><div class="empty-icon">🔍</div><div>Search your offline memory</div><div style="margin-top:0.5rem;font-size:0.75rem">Press <span class="kbd">Enter</span> or click Search</div></div>
       </div>
     </div>
     <aside class="sidebar">
+      <div class="card">
+        <div class="card-header" data-toggle="saved-body"><span class="card-title">⭐ Saved Searches</span><button class="btn btn-secondary" id="save-search" style="padding:0.2rem 0.6rem;font-size:0.7rem">+ Save</button></div>
+        <div class="card-body" id="saved-body"><div class="empty" style="padding:1rem">No saved searches</div></div>
+      </div>
+      <div class="card">
+        <div class="card-header" data-toggle="alerts-body"><span class="card-title">🔔 Alerts</span><span class="card-badge" id="alerts-count">0</span></div>
+        <div class="card-body" id="alerts-body"><div class="empty" style="padding:1rem">Watch a saved search with 🔕 to get alerts on new memories</div></div>
+      </div>
+      <div class="card">
+        <div class="card-header" data-toggle="history-body"><span class="card-title">🕘 Recent Searches</span><button class="btn btn-secondary" id="clear-history" style="padding:0.2rem 0.6rem;font-size:0.7rem">Clear</button></div>
+        <div class="card-body" id="history-body"><div class="empty" style="padding:1rem">No searches yet</div></div>
+      </div>
       <div class="card">
         <div class="card-header" data-toggle="sessions-body"><span class="card-title">💬 Sessions</span><span class="card-badge" id="sessions-count">0</span></div>
         <div class="card-body" id="sessions-body"><div class="empty" style="padding:1rem">No sessions</div></div>
@@ -444,6 +556,10 @@ ${statusBarHtml}
         <div class="card-header" data-toggle="tasks-body"><span class="card-title">⏰ Tasks</span><span class="card-badge" id="tasks-count">0</span></div>
         <div class="card-body" id="tasks-body"><div class="empty" style="padding:1rem">No tasks</div></div>
       </div>
+      <div class="card" id="facets-card" style="display:none">
+        <div class="card-header" data-toggle="facets-body"><span class="card-title">🔎 Refine</span></div>
+        <div class="card-body" id="facets-body" style="max-height:400px"></div>
+      </div>
       <div class="card">
         <div class="card-header" data-toggle="categories-body"><span class="card-title">🏷️ Categories</span></div>
         <div class="card-body" id="categories-body"><div class="tags" id="categories-tags"></div></div>
@@ -460,7 +576,27 @@ ${statusBarHtml}
 <script>
 const $ = id => document.getElementById(id);
 const esc = s => String(s).replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/'/g,'&#39;').replace(/"/g,'&quot;');
+// Wrap [start, end) ranges in <mark>, escaping every segment
+const highlight = (text, ranges) => {
+  let out = '', pos = 0;
+  (ranges || []).forEach(function(r) { out += esc(text.slice(pos, r[0])) + '<mark>' + esc(text.slice(r[0], r[1])) + '</mark>'; pos = r[1]; });
+  return out + esc(text.slice(pos));
+};
 const formatTime = ts => { try { return new Date(ts).toLocaleTimeString('en-US',{hour:'2-digit',minute:'2-digit'}); } catch { return '?'; } };
+const fmtNum = n => typeof n === 'number' ? n.toFixed(3) : '—';
+// One-line view of SearchItem.explain for the result meta row
+const explainSummary = x => [
+  x.lexical_position ? 'fts #' + x.lexical_position + ' (bm25 ' + fmtNum(x.fts_rank) + ')' : '',
+  x.semantic_position ? 'sem #' + x.semantic_position + ' (cos ' + fmtNum(x.semantic_similarity) + ')' : '',
+  x.semantic_weight != null ? 'w=' + x.semantic_weight : '',
+  x.rrf_ranks ? 'rrf ' + Object.keys(x.rrf_ranks).map(k => k + ' #' + x.rrf_ranks[k]).join(', ') : ''
+].filter(Boolean).join(' · ');
+// Rerank boosts behind a score, e.g. "recency ×0.82 · tag fix ×1.3"
+// Boosts shift the score by (factor - 1) times the largest score magnitude among the candidates.
+const signedPct = f => (f >= 1 ? '+' : '−') + Math.round(Math.abs(f - 1) * 100) + '%';
+const boostSummary = item => (item.score_boosts || []).map(b =>
+  b.name.replace('_', '-') + (b.name === 'source' || b.name === 'tag' ? ' ' + b.detail : '') + ' ' + signedPct(b.factor)
+).join(' · ');
 
 // Toggle cards
 document.querySelectorAll('[data-toggle]').forEach(el => {
@@ -560,6 +696,35 @@ async function loadCategories() {
   } catch (e) { console.error('loadCategories error:', e); }
 }
 
+// Inline operator for a facet value (see query-syntax.ts)
+function facetOperator(kind, value) {
+  const quote = v => /\\s/.test(v) ? '"' + v + '"' : v;
+  if (kind === 'month') {
+    const [y, m] = value.split('-').map(Number);
+    const next = m === 12 ? (y + 1) + '-01' : y + '-' + String(m + 1).padStart(2, '0');
+    return 'after:' + value + '-01 before:' + next + '-01';
+  }
+  return kind + ':' + quote(value);
+}
+
+function renderFacets(facets) {
+  const groups = [['source', 'Source'], ['tag', 'Tag'], ['month', 'Month'], ['entity', 'Entity']]
+    .filter(g => facets && facets[g[0]] && facets[g[0]].length);
+  if (!groups.length) { $('facets-card').style.display = 'none'; return; }
+  $('facets-body').innerHTML = groups.map(g =>
+    '<div class="facet-group"><div class="facet-label">' + g[1] + '</div><div class="tags">' +
+      facets[g[0]].map(f => '<span class="tag" data-facet="' + g[0] + '" data-value="' + esc(f.value) + '">' + esc(f.value) + '<span class="facet-count">' + f.count + '</span></span>').join('') +
+    '</div></div>'
+  ).join('');
+  $('facets-card').style.display = '';
+  document.querySelectorAll('#facets-body .tag').forEach(el => {
+    el.addEventListener('click', function() {
+      $('search-input').value = $('search-input').value.trim() + ' ' + facetOperator(this.getAttribute('data-facet'), this.getAttribute('data-value'));
+      $('search-form').dispatchEvent(new Event('submit'));
+    });
+  });
+}
+
 async function loadMemoryCount() {
   try {
     const resp = await fetch('/memory/stats');
@@ -570,50 +735,405 @@ async function loadMemoryCount() {
   } catch (e) { $('stat-memories').textContent = '—'; }
 }
 
+// Search box + filter row as deep-link params (/?q=…&mode=…), also used by
+// saved searches and history
+const PARAM_FIELDS = { q: 'search-input', mode: 'mode-select', kind: 'kind-filter', source: 'source-filter', tag: 'tag-filter', entity: 'entity-filter', since: 'since-filter', until: 'until-filter' };
+
+function currentParams() {
+  const p = {};
+  Object.keys(PARAM_FIELDS).forEach(k => { const v = $(PARAM_FIELDS[k]).value.trim(); if (v) p[k] = v; });
+  return p;
+}
+
+function applyParams(p) {
+  Object.keys(PARAM_FIELDS).forEach(k => { $(PARAM_FIELDS[k]).value = p[k] || (k === 'mode' ? 'hybrid' : ''); });
+}
+
+function paramsLink(p) {
+  return location.origin + '/?' + new URLSearchParams(p).toString();
+}
+
+function paramsLabel(p) {
+  return [p.q, p.kind ? 'kind:' + p.kind : '', p.source ? 'source:' + p.source : '', p.tag ? 'tag:' + p.tag : '', p.since ? 'after:' + p.since : '', p.until ? 'before:' + p.until : ''].filter(Boolean).join(' ');
+}
+
+function runParams(p) {
+  applyParams(p);
+  $('search-form').dispatchEvent(new Event('submit'));
+}
+
+let _savedList = [];
+
+async function loadSavedSearches() {
+  try {
+    const [resp, watches] = await Promise.all([
+      fetch('/searches/saved'),
+      fetch('/searches/watches').then(r => r.ok ? r.json() : []).catch(() => [])
+    ]);
+    const saved = await resp.json();
+    if (!resp.ok) throw new Error(saved.error || 'HTTP ' + resp.status);
+    _savedList = saved;
+    if (!saved.length) { $('saved-body').innerHTML = '<div class="empty" style="padding:1rem">No saved searches</div>'; return; }
+    const watched = {};
+    watches.forEach(w => { watched[w.saved_id] = w; });
+    $('saved-body').innerHTML = saved.map((s, i) => {
+      const w = watched[s.id];
+      const watchTitle = w ? 'Watching every ' + Math.round(w.interval_s / 60) + ' min' + (w.last_error ? ' (last error: ' + w.last_error + ')' : '') + ' — click to stop' : 'Watch for new memories';
+      return '<div class="list-item" data-saved="' + i + '" style="cursor:pointer"><div style="flex:1;min-width:0"><div>' + esc(s.name) + '</div><div class="list-item-time">' + esc(paramsLabel(s.params)) + '</div></div>' +
+        '<span data-action="watch" data-watched="' + (w ? '1' : '') + '" title="' + esc(watchTitle) + '" style="cursor:pointer">' + (w ? '🔔' : '🔕') + '</span>' +
+        '<span data-action="link" title="Copy link" style="cursor:pointer;margin-left:0.4rem">🔗</span><span data-action="delete" title="Delete" style="cursor:pointer;margin-left:0.4rem">✕</span></div>';
+    }).join('');
+    document.querySelectorAll('#saved-body [data-saved]').forEach(el => {
+      el.addEventListener('click', async function(e) {
+        const s = saved[parseInt(this.getAttribute('data-saved'))];
+        const action = e.target.getAttribute('data-action');
+        if (action === 'link') {
+          const link = paramsLink(s.params);
+          try { await navigator.clipboard.writeText(link); showToast('Link copied', 'success'); } catch { showToast(link, 'info'); }
+        } else if (action === 'watch') {
+          if (e.target.getAttribute('data-watched')) {
+            await fetch('/searches/watches?id=' + s.id, { method: 'DELETE' });
+          } else {
+            const minutes = prompt('Check for new matching memories every N minutes', '5');
+            if (!minutes) return;
+            const webhook = prompt('Local webhook to call on new matches (optional, e.g. http://127.0.0.1:8080/hook)', '') || null;
+            const resp = await fetch('/searches/watches', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ saved_id: s.id, interval_s: Math.round(parseFloat(minutes) * 60), webhook_url: webhook }) });
+            const data = await resp.json();
+            if (!resp.ok) { showToast(data.error || 'Failed to watch', 'error'); return; }
+            showToast('Watching "' + s.name + '"', 'success');
+          }
+          loadSavedSearches();
+        } else if (action === 'delete') {
+          await fetch('/searches/saved?id=' + s.id, { method: 'DELETE' });
+          loadSavedSearches();
+        } else {
+          runParams(s.params);
+        }
+      });
+    });
+  } catch (e) {
+    $('saved-body').innerHTML = '<div class="empty" style="padding:1rem">Error: ' + esc(e.message) + '</div>';
+  }
+}
+
+let _lastAlertId = null;
+
+// Watch notifications; new ones since the last poll also pop a toast
+async function loadAlerts() {
+  try {
+    const resp = await fetch('/searches/notifications?limit=10');
+    const alerts = await resp.json();
+    if (!resp.ok) throw new Error(alerts.error || 'HTTP ' + resp.status);
+    const unread = alerts.filter(a => !a.read);
+    $('alerts-count').textContent = unread.length;
+    if (_lastAlertId !== null) {
+      alerts.filter(a => a.id > _lastAlertId).forEach(a => showToast('🔔 ' + a.name + ': ' + a.count + ' new', 'success'));
+    }
+    if (alerts.length) _lastAlertId = Math.max(_lastAlertId || 0, alerts[0].id);
+    else if (_lastAlertId === null) _lastAlertId = 0;
+    if (!alerts.length) return;
+    $('alerts-body').innerHTML = alerts.map((a, i) =>
+      '<div class="list-item" data-alert="' + i + '" style="cursor:pointer;' + (a.read ? 'opacity:0.6' : '') + '"><div><b>' + esc(a.name) + '</b> · ' + a.count + ' new<div class="list-item-time">' + esc(a.preview) + '</div></div><div class="list-item-time">' + formatTime(a.created_at) + '</div></div>'
+    ).join('');
+    document.querySelectorAll('#alerts-body [data-alert]').forEach(el => {
+      el.addEventListener('click', async function() {
+        const a = alerts[parseInt(this.getAttribute('data-alert'))];
+        await fetch('/searches/notifications', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ids: [a.id] }) });
+        const s = _savedList.find(x => x.id === a.saved_id);
+        if (s) runParams(s.params);
+        loadAlerts();
+      });
+    });
+  } catch (e) {
+    $('alerts-body').innerHTML = '<div class="empty" style="padding:1rem">Error: ' + esc(e.message) + '</div>';
+  }
+}
+
+async function loadHistory() {
+  try {
+    const resp = await fetch('/searches/history?limit=15');
+    const history = await resp.json();
+    if (!resp.ok) throw new Error(history.error || 'HTTP ' + resp.status);
+    if (!history.length) { $('history-body').innerHTML = '<div class="empty" style="padding:1rem">No searches yet</div>'; return; }
+    $('history-body').innerHTML = history.map((h, i) =>
+      '<div class="list-item" data-history="' + i + '" style="cursor:pointer"><div>' + esc(paramsLabel(h.params)) + '</div><div class="list-item-time">' + h.results + ' · ' + formatTime(h.executed_at) + '</div></div>'
+    ).join('');
+    document.querySelectorAll('#history-body [data-history]').forEach(el => {
+      el.addEventListener('click', function() { runParams(history[parseInt(this.getAttribute('data-history'))].params); });
+    });
+  } catch (e) {
+    $('history-body').innerHTML = '<div class="empty" style="padding:1rem">Error: ' + esc(e.message) + '</div>';
+  }
+}
+
+$('save-search').addEventListener('click', async e => {
+  e.stopPropagation();
+  const params = currentParams();
+  if (!params.q) { showToast('Type a search first', 'error'); return; }
+  const name = prompt('Name this search', params.q);
+  if (!name) return;
+  try {
+    const resp = await fetch('/searches/saved', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name, params }) });
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'HTTP ' + resp.status);
+    showToast('Saved "' + data.name + '"', 'success');
+    loadSavedSearches();
+  } catch (err) {
+    showToast(err.message, 'error');
+  }
+});
+
+$('clear-history').addEventListener('click', async e => {
+  e.stopPropagation();
+  await fetch('/searches/history', { method: 'DELETE' });
+  loadHistory();
+});
+
+// Build the /memory/search URL from the search box and filter row
+// (mode overrides the mode select, for the compare view)
+function searchUrl(mode, kind) {
+  const q = $('search-input').value.trim();
+  const source = $('source-filter').value.trim();
+  const tag = $('tag-filter').value.trim();
+  const entity = $('entity-filter').value.trim();
+  const since = $('since-filter').value;
+  const until = $('until-filter').value;
+  const limit = localStorage.getItem('clawscope-results-limit') || '20';
+  let url = '/memory/search?envelope=1&q=' + encodeURIComponent(q) + '&mode=' + (mode || $('mode-select').value) + '&limit=' + limit;
+  if (kind || $('kind-filter').value) url += '&kind=' + (kind || $('kind-filter').value);
+  if (source) url += '&source=' + encodeURIComponent(source);
+  if (tag) url += '&tag=' + encodeURIComponent(tag);
+  if (entity) url += '&entity=' + encodeURIComponent(entity);
+  if (since) url += '&since=' + encodeURIComponent(since);
+  if (until) url += '&until=' + encodeURIComponent(until);
+  if ($('explain-toggle').checked) url += '&explain=1';
+  if ($('dedupe-toggle').checked) url += '&dedupe=1';
+  return url;
+}
+
+function resultCardHtml(item, i) {
+  const created = item.created_at || item.createdAt || '';
+  return '<div class="result-card" data-index="' + i + '">' +
+    '<div class="result-header">' + kindBadge(item) + '<span style="color:var(--text-muted);font-size:0.7rem">' + esc(item.source || 'unknown') + '</span></div>' +
+    '<div class="result-text">' + highlight(item.snippet || '', item.highlights) + '</div>' +
+    '<div class="result-meta"><span>Score: ' + (item.score ? item.score.toFixed(2) : '—') + '</span><span>' + (created ? new Date(created).toLocaleDateString() : '') + '</span>' + (item.explain ? '<span>' + esc(explainSummary(item.explain)) + '</span>' : '') +
+      (item.score_boosts ? '<span title="Score before rerank: ' + fmtNum(item.score_base) + '; each boost adds its % of the largest |score| among results">' + esc(boostSummary(item)) + '</span>' : '') +
+      (item.duplicates ? '<button class="dup-toggle" data-dup-toggle>+' + item.duplicates + ' near-duplicate' + (item.duplicates > 1 ? 's' : '') + '</button>' : '') + '</div>' +
+    (item.duplicates ? '<div class="dup-list">' + (item.duplicate_items || []).map(function(d, j) {
+      return '<div class="dup-item" data-dup="' + j + '">' + highlight(d.snippet || '', d.highlights) + '</div>';
+    }).join('') + '</div>' : '') +
+  '</div>';
+}
+
+function kindBadge(item) {
+  if (item.kind === 'fact') return '<span class="badge badge-fact">Fact</span>';
+  if (item.kind === 'task') return '<span class="badge badge-cron">Task</span>';
+  if (item.kind === 'doc') return '<span class="badge badge-doc">Doc</span>';
+  if (item.kind === 'convo') return '<span class="badge badge-session">Convo</span>';
+  return '<span class="badge badge-memory">Memory</span>';
+}
+
+function showResultDetail(title, item) {
+  // Facts link back to the memory they were extracted from
+  const memoryId = item.kind === 'fact' ? item.payload?.source_item_id : item.kind === 'memory' ? item.id : null;
+  showDetail(title,
+    '<div class="result-text" style="margin-bottom:1rem">' + highlight(item.snippet || '', item.highlights) + '</div>' +
+    (item.kind === 'fact' && item.payload?.source_text ? '<div class="result-meta" style="margin-bottom:1rem">From memory: ' + esc(item.payload.source_text) + '</div>' : '') +
+    (item.kind === 'doc' ? '<div class="result-meta" style="margin-bottom:1rem"><code>' + esc(item.payload.path) + ':' + item.payload.start_line + '-' + item.payload.end_line + '</code></div>' : '') +
+    (memoryId ? '<button class="btn btn-secondary" id="find-similar" style="margin-bottom:1rem">🔗 Find similar' + (item.kind === 'fact' ? ' to source memory' : '') + '</button>' : '') +
+    '<div id="similar-results"></div>' +
+    '<pre class="detail-pre">' + esc(JSON.stringify(item, null, 2)) + '</pre>');
+  if (memoryId) $('find-similar').addEventListener('click', function() { loadSimilar(memoryId); });
+}
+
+// Nearest neighbours of a memory, listed inside the detail panel
+async function loadSimilar(id) {
+  $('similar-results').innerHTML = '<div class="spinner" style="margin:0 auto 1rem"></div>';
+  try {
+    const resp = await fetch('/memory/similar?limit=10&id=' + encodeURIComponent(id));
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'HTTP ' + resp.status);
+    if (!data.length) { $('similar-results').innerHTML = '<div class="empty" style="padding:1rem">No similar memories</div>'; return; }
+    $('similar-results').innerHTML = '<div style="margin-bottom:1rem">' + data.map(function(s, i) {
+      return '<div class="list-item" data-similar="' + i + '" style="cursor:pointer"><div>' + esc(s.snippet || '') + '</div><div class="list-item-time">' + esc(s.source || '') + ' · ' + (s.score ? s.score.toFixed(3) : '—') + '</div></div>';
+    }).join('') + '</div>';
+    document.querySelectorAll('#similar-results [data-similar]').forEach(function(el) {
+      el.addEventListener('click', function() { showResultDetail('Similar memory', data[parseInt(this.getAttribute('data-similar'))]); });
+    });
+  } catch (err) {
+    $('similar-results').innerHTML = '<div style="color:var(--accent-red);margin-bottom:1rem">Error: ' + esc(err.message) + '</div>';
+  }
+}
+
+// Append a page of results; the first page replaces the list
+function renderResults(items, nextCursor, append) {
+  const offset = append ? window._searchResults.length : 0;
+  window._searchResults = (append ? window._searchResults : []).concat(items);
+  window._nextCursor = nextCursor || null;
+
+  const html = items.map(function(item, i) { return resultCardHtml(item, offset + i); }).join('');
+  const more = $('load-more');
+  if (more) more.remove();
+  if (append) $('results').insertAdjacentHTML('beforeend', html);
+  else $('results').innerHTML = html;
+
+  $('results').querySelectorAll('.result-card:not([data-bound])').forEach(function(el) {
+    el.setAttribute('data-bound', '1');
+    el.addEventListener('click', function(e) {
+      const idx = parseInt(this.getAttribute('data-index'));
+      const item = window._searchResults[idx];
+      if (e.target.closest('[data-dup-toggle]')) {
+        this.querySelector('.dup-list').classList.toggle('open');
+        return;
+      }
+      const dup = e.target.closest('[data-dup]');
+      if (dup) {
+        showResultDetail('Duplicate of result ' + (idx + 1), item.duplicate_items[parseInt(dup.getAttribute('data-dup'))]);
+        return;
+      }
+      showResultDetail('Result ' + (idx + 1), item);
+    });
+  });
+
+  if (window._nextCursor) {
+    $('results').insertAdjacentHTML('beforeend', '<button class="btn btn-secondary" id="load-more" style="align-self:center">Load more</button>');
+    $('load-more').addEventListener('click', loadMore);
+  }
+}
+
+// Compare view: the same query through every mode, one column each
+const COMPARE_MODES = ['lexical', 'semantic', 'hybrid'];
+
+// Memories only: the other sources (facts, tasks, docs…) rank the same way in
+// every mode, so they would only blur the differences.
+async function runCompare() {
+  const responses = await Promise.all(COMPARE_MODES.map(async function(mode) {
+    const resp = await fetch(searchUrl(mode, 'memory'));
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(mode + ': ' + (data.error || 'HTTP ' + resp.status));
+    return data;
+  }));
+  renderCompare(responses);
+}
+
+function renderCompare(responses) {
+  const byMode = {};
+  const ranks = {};  // mode -> kind:id -> 1-based rank
+  const key = it => it.kind + ':' + it.id;
+  COMPARE_MODES.forEach(function(m, i) {
+    byMode[m] = responses[i];
+    ranks[m] = {};
+    (responses[i].items || []).forEach(function(it, j) { ranks[m][key(it)] = j + 1; });
+  });
+
+  const shared = (a, b) => Object.keys(ranks[a]).filter(k => ranks[b][k]).length;
+  const inAll = Object.keys(ranks.hybrid).filter(k => ranks.lexical[k] && ranks.semantic[k]).length;
+  const overlap = '<div class="compare-overlap">' +
+    [['lexical', 'semantic'], ['lexical', 'hybrid'], ['semantic', 'hybrid']].map(p => '<span>' + p[0] + ' ∩ ' + p[1] + ': <strong>' + shared(p[0], p[1]) + '</strong></span>').join('') +
+    '<span>in all three: <strong>' + inAll + '</strong></span>' +
+    '<span>top ' + (localStorage.getItem('clawscope-results-limit') || '20') + ' memories per mode · ▲▼ rank vs hybrid</span></div>';
+
+  const columns = COMPARE_MODES.map(function(m) {
+    const data = byMode[m];
+    const items = data.items || [];
+    const head = '<div class="compare-head"><span>' + m + '</span><span>' + (data.mode_used !== m ? '⚠️ ran as ' + esc(data.mode_used) + ' · ' : '') + data.took_ms + 'ms</span></div>';
+    const cards = items.length ? items.map(function(it, i) {
+      return '<div class="result-card compare-card" data-compare="' + m + '" data-index="' + i + '">' +
+        '<div class="result-header"><span class="compare-rank">#' + (i + 1) + '</span>' + rankChange(m, key(it), i + 1, ranks) + kindBadge(it) + '</div>' +
+        '<div class="result-text">' + highlight(it.snippet || '', it.highlights) + '</div>' +
+        '<div class="result-meta"><span>Score: ' + fmtNum(it.score) + '</span><span>' + esc(it.source || '') + '</span></div>' +
+      '</div>';
+    }).join('') : '<div class="empty" style="padding:1rem">No results</div>';
+    return '<div class="compare-col">' + head + cards + '</div>';
+  }).join('');
+
+  $('results').innerHTML = overlap + '<div class="compare-grid">' + columns + '</div>';
+  $('results').querySelectorAll('[data-compare]').forEach(function(el) {
+    el.addEventListener('click', function() {
+      const m = this.getAttribute('data-compare');
+      const i = parseInt(this.getAttribute('data-index'));
+      showResultDetail(m + ' #' + (i + 1), byMode[m].items[i]);
+    });
+  });
+
+  const degraded = Array.from(new Set(responses.map(r => r.degraded).filter(Boolean)));
+  if (degraded.length) {
+    $('search-banner').textContent = '⚠️ ' + degraded.join(' · ');
+    $('search-banner').style.display = 'block';
+  }
+}
+
+// Lexical and semantic ranks are compared with hybrid; hybrid shows where its
+// items sit in the other two modes.
+function rankChange(mode, k, rank, ranks) {
+  if (mode === 'hybrid') return '<span class="rank-other" title="Rank in lexical / semantic">L' + (ranks.lexical[k] || '–') + ' · S' + (ranks.semantic[k] || '–') + '</span>';
+  const h = ranks.hybrid[k];
+  if (!h) return '<span class="rank-new" title="Not in the hybrid results">new</span>';
+  if (h === rank) return '<span class="rank-same" title="Same rank in hybrid">=</span>';
+  return h > rank
+    ? '<span class="rank-up" title="Hybrid rank #' + h + '">▲' + (h - rank) + '</span>'
+    : '<span class="rank-down" title="Hybrid rank #' + h + '">▼' + (rank - h) + '</span>';
+}
+
+async function loadMore() {
+  const btn = $('load-more');
+  btn.disabled = true;
+  btn.textContent = 'Loading...';
+  try {
+    const resp = await fetch(searchUrl() + '&cursor=' + encodeURIComponent(window._nextCursor));
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'Search failed: ' + resp.status);
+    renderResults(data.items || [], data.next_cursor, true);
+  } catch (err) {
+    btn.disabled = false;
+    btn.textContent = 'Load more';
+    showToast(err.message, 'error');
+  }
+}
+
 $('search-form').addEventListener('submit', async e => {
   e.preventDefault();
   const q = $('search-input').value.trim();
-  const mode = $('mode-select').value;
-  const source = $('source-filter').value.trim();
   if (!q) return;
   
   $('results').innerHTML = '<div class="empty"><div class="spinner" style="margin:0 auto 0.5rem"></div><div>Searching...</div></div>';
+  $('search-banner').style.display = 'none';
+  
+  if ($('mode-select').value === 'compare') {
+    history.replaceState(null, '', '/?' + new URLSearchParams(currentParams()).toString());
+    renderFacets(null);
+    try {
+      await runCompare();
+    } catch (err) {
+      $('results').innerHTML = '<div class="empty"><div class="empty-icon">⚠️</div><div>Error: ' + esc(err.message) + '</div></div>';
+      showToast(err.message, 'error');
+    }
+    return;
+  }
   
   try {
-    let url = '/memory/search?q=' + encodeURIComponent(q) + '&mode=' + mode + '&limit=20';
-    if (source) url += '&source=' + encodeURIComponent(source);
-    const resp = await fetch(url);
-    if (!resp.ok) throw new Error('Search failed: ' + resp.status);
-    const items = await resp.json();
+    // The page URL doubles as a shareable deep link
+    history.replaceState(null, '', '/?' + new URLSearchParams(currentParams()).toString());
+    const resp = await fetch(searchUrl() + '&facets=1&history=1');
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'Search failed: ' + resp.status);
+    const items = data.items || [];
+    loadHistory();
+    
+    if (data.degraded) {
+      $('search-banner').textContent = '⚠️ ' + data.degraded;
+      $('search-banner').style.display = 'block';
+    }
+    renderFacets(data.facets);
     
     if (!items || items.length === 0) {
       $('results').innerHTML = '<div class="empty"><div class="empty-icon">🔍</div><div>No results found</div></div>';
       return;
     }
     
-    $('results').innerHTML = items.map(function(item, i) {
-      const snippet = item.snippet || (item.text ? item.text.slice(0,200) : '');
-      const created = item.created_at || item.createdAt || '';
-      return '<div class="result-card" data-index="' + i + '">' +
-        '<div class="result-header"><span class="badge badge-memory">Memory</span><span style="color:var(--text-muted);font-size:0.7rem">' + esc(item.source || 'unknown') + '</span></div>' +
-        '<div class="result-text">' + esc(snippet) + (item.text && item.text.length > 200 ? '...' : '') + '</div>' +
-        '<div class="result-meta"><span>Score: ' + (item.score ? item.score.toFixed(2) : '—') + '</span><span>' + (created ? new Date(created).toLocaleDateString() : '') + '</span></div>' +
-      '</div>';
-    }).join('');
-    
-    // Store items for detail view
-    window._searchResults = items;
-    
-    // Attach click handlers
-    document.querySelectorAll('.result-card').forEach(function(el) {
-      el.addEventListener('click', function() {
-        const idx = parseInt(this.getAttribute('data-index'));
-        const item = window._searchResults[idx];
-        showDetail('Result ' + (idx + 1), '<pre class="detail-pre">' + esc(JSON.stringify(item, null, 2)) + '</pre>');
-      });
-    });
+    renderResults(items, data.next_cursor, false);
     
-    showToast('Found ' + items.length + ' results', 'success');
+    showToast('Found ' + items.length + (data.next_cursor ? '+' : '') + ' results in ' + data.took_ms + 'ms (' + data.mode_used + ')', 'success');
   } catch (err) {
     $('results').innerHTML = '<div class="empty"><div class="empty-icon">⚠️</div><div>Error: ' + esc(err.message) + '</div></div>';
     showToast(err.message, 'error');
@@ -632,11 +1152,19 @@ loadStatus();
 loadCategories();
 loadMemoryCount();
 
+loadSavedSearches();
+loadHistory();
+loadAlerts();
+setInterval(loadAlerts, 30000);
+
 // Apply saved preferences
 const savedMode = localStorage.getItem('clawscope-search-mode');
 if (savedMode) $('mode-select').value = savedMode;
-const savedLimit = localStorage.getItem('clawscope-results-limit');
-if (savedLimit) { /* limit is set in search but not persisted in UI */ }
+
+// Deep link: /?q=…&mode=… runs that search
+const linkParams = Object.fromEntries(new URLSearchParams(location.search));
+if (linkParams.q) runParams(Object.assign({ mode: $('mode-select').value }, linkParams));
+else if (linkParams.mode) $('mode-select').value = linkParams.mode;
 
 setInterval(loadStatus, 30000);
 </script></body></html>`;
@@ -992,11 +1520,7 @@ async function loadItems() {
     document.querySelectorAll('#items-body tr[data-idx]').forEach(row => {
       row.addEventListener('click', function() {
         const idx = parseInt(this.getAttribute('data-idx'));
-        const item = _dbItems[idx];
-        $('detail-title').textContent = 'Memory Item';
-        $('detail-body').innerHTML = '<pre class="detail-pre">' + esc(JSON.stringify(item, null, 2)) + '</pre>';
-        $('detail-overlay').classList.add('open');
-        $('detail-panel').classList.add('open');
+        showItemDetail(_dbItems[idx]);
       });
     });
   } catch (err) {
@@ -1004,6 +1528,39 @@ async function loadItems() {
   }
 }
 
+function showItemDetail(item) {
+  $('detail-title').textContent = 'Memory Item';
+  $('detail-body').innerHTML =
+    '<button class="btn btn-secondary" id="find-similar" style="margin-bottom:1rem">🔗 Find similar</button>' +
+    '<div id="similar-results"></div>' +
+    '<pre class="detail-pre">' + esc(JSON.stringify(item, null, 2)) + '</pre>';
+  $('find-similar').addEventListener('click', function() { loadSimilar(item.id); });
+  $('detail-overlay').classList.add('open');
+  $('detail-panel').classList.add('open');
+}
+
+// Nearest neighbours of a memory, listed inside the detail panel
+async function loadSimilar(id) {
+  $('similar-results').innerHTML = '<div class="spinner" style="margin:0 auto 1rem"></div>';
+  try {
+    const resp = await fetch('/memory/similar?limit=10&id=' + encodeURIComponent(id));
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'HTTP ' + resp.status);
+    if (!data.length) { $('similar-results').innerHTML = '<div class="empty" style="padding:1rem">No similar memories</div>'; return; }
+    $('similar-results').innerHTML = '<div style="margin-bottom:1rem">' + data.map(function(s, i) {
+      return '<div class="list-item" data-similar="' + i + '" style="cursor:pointer"><div>' + esc(s.snippet || '') + '</div><div class="list-item-time">' + esc(s.source || '') + ' · ' + (s.score ? s.score.toFixed(3) : '—') + '</div></div>';
+    }).join('') + '</div>';
+    document.querySelectorAll('#similar-results [data-similar]').forEach(function(el) {
+      el.addEventListener('click', function() {
+        const s = data[parseInt(this.getAttribute('data-similar'))];
+        showItemDetail({ id: s.id, source: s.source, text: s.payload?.text, tags: s.payload?.tags, created_at: s.created_at });
+      });
+    });
+  } catch (err) {
+    $('similar-results').innerHTML = '<div style="color:var(--accent-red);margin-bottom:1rem">Error: ' + esc(err.message) + '</div>';
+  }
+}
+
 async function loadStats() {
   try {
     const resp = await fetch('/memory/stats');
@@ -1089,6 +1646,7 @@ ${statusBarHtml}
         </div>
         <p style="font-size:0.75rem;color:var(--text-muted);margin-top:0.5rem">
           Hybrid combines keyword search with AI-powered semantic matching for best results.
+          Not sure? <a href="/?mode=compare" style="color:var(--accent)">Compare the modes side by side</a> on your own memories.
         </p>
       </div>
       <div class="settings-section">
@@ -1106,6 +1664,27 @@ ${statusBarHtml}
       <div id="settings-result" style="margin-top:1rem;font-size:0.85rem"></div>
     </div>
   </div>
+  <div class="card">
+    <div class="card-header"><span class="card-title">📁 Indexed Documents</span></div>
+    <div class="card-body">
+      <div class="settings-section">
+        <label class="settings-label">Directories (one per line)</label>
+        <textarea class="select" id="doc-dirs" rows="4" style="width:100%;font-family:monospace" placeholder="~/.openclaw/workspace&#10;~/notes"></textarea>
+        <p style="font-size:0.75rem;color:var(--text-muted);margin-top:0.5rem">
+          Markdown, text and source files are chunked and searchable as <b>Doc</b> results next to memories
+          (<code>docExtensions</code> in the settings file changes which).
+        </p>
+      </div>
+      <div class="settings-row">
+        <label style="display:flex;align-items:center;gap:0.4rem;font-size:0.85rem;color:var(--text-secondary)"><input type="checkbox" id="doc-embeddings"> Embed chunks with Ollama (semantic search over docs)</label>
+      </div>
+      <div class="settings-row">
+        <button class="btn btn-primary" id="save-doc-dirs">Save &amp; index</button>
+        <button class="btn btn-secondary" id="reindex-docs">🔄 Reindex now</button>
+      </div>
+      <div id="docs-status" style="font-size:0.85rem;color:var(--text-muted)">Loading...</div>
+    </div>
+  </div>
   <div class="card">
     <div class="card-header"><span class="card-title">📊 Database Info</span></div>
     <div class="card-body" id="db-info">Loading...</div>
@@ -1192,7 +1771,7 @@ $('extract-facts-btn').addEventListener('click', async function() {
   $('action-result').innerHTML = '<span style="color:var(--text-muted)">Processing...</span>';
   
   try {
-    const resp = await fetch('/extract-facts');
+    const resp = await fetch('/extract-facts', { method: 'POST' });
     const data = await resp.json();
     if (data.success) {
       $('action-result').innerHTML = '<span style="color:var(--accent)">✓ Extracted ' + data.count + ' facts</span>';
@@ -1213,7 +1792,44 @@ $('clear-cache-btn').addEventListener('click', function() {
   $('action-result').innerHTML = '<span style="color:var(--accent)">✓ Browser cache cleared</span>';
 });
 
+function docsReportHtml(r) {
+  return '<span style="color:var(--accent)">✓ ' + r.files + ' files, ' + r.indexed + ' (re)indexed, ' + r.removed + ' removed, ' + r.chunks + ' chunks' +
+    (r.embedded ? ', ' + r.embedded + ' embedded' : '') + ' in ' + r.took_ms + 'ms</span>' +
+    (r.errors && r.errors.length ? '<div style="color:var(--accent-orange);margin-top:0.25rem">' + r.errors.map(esc).join('<br>') + '</div>' : '');
+}
+
+async function loadDocsStatus() {
+  try {
+    const resp = await fetch('/docs/status');
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'HTTP ' + resp.status);
+    $('doc-dirs').value = data.dirs.join('\\n');
+    $('doc-embeddings').checked = data.embeddings;
+    $('docs-status').innerHTML = data.files + ' files · ' + data.chunks + ' chunks · ' + data.embedded + ' embedded' + (data.indexing ? ' · indexing…' : '');
+  } catch (err) {
+    $('docs-status').innerHTML = '<span style="color:var(--accent-red)">Error: ' + esc(err.message) + '</span>';
+  }
+}
+
+async function runDocsIndex(url, body) {
+  $('docs-status').innerHTML = '<span style="color:var(--text-muted)">Indexing...</span>';
+  try {
+    const resp = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: body ? JSON.stringify(body) : undefined });
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error || 'HTTP ' + resp.status);
+    $('docs-status').innerHTML = docsReportHtml(data);
+  } catch (err) {
+    $('docs-status').innerHTML = '<span style="color:var(--accent-red)">Error: ' + esc(err.message) + '</span>';
+  }
+}
+
+$('save-doc-dirs').addEventListener('click', function() {
+  runDocsIndex('/docs/settings', { dirs: $('doc-dirs').value.split('\\n'), embeddings: $('doc-embeddings').checked });
+});
+$('reindex-docs').addEventListener('click', function() { runDocsIndex('/docs/reindex'); });
+
 loadStats();
+loadDocsStatus();
 </script></body></html>`;
 
 // =============================================================================
@@ -1231,6 +1847,39 @@ function readJsonFile(filePath: string): any {
   return null;
 }
 
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new ValidationError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// JSON error response: 400 for the caller's input errors, 500 for anything else.
+function sendError(res: http.ServerResponse, err: any) {
+  res.writeHead(err instanceof ValidationError ? 400 : 500, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: err?.message ?? String(err) }));
+}
+
+// Browsers send Origin on cross-site writes; a page elsewhere must not be able
+// to drive the routes that change local data (facts, indexed doc dirs…).
+function isCrossOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  try {
+    return new URL(origin).host !== req.headers.host;
+  } catch {
+    return true;
+  }
+}
+
 // Get memory DB path
 function getDbPath(): string {
   return path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
@@ -1239,11 +1888,20 @@ function getDbPath(): string {
 const server = http.createServer(async (req, res) => {
   const url = new URL(req.url || '/', 'http://localhost');
   
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // Reads only: writes are never offered to other origins
+  if (req.method === 'GET' || req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
   
   if (req.method === 'OPTIONS') { res.writeHead(200); res.end(); return; }
+
+  if (req.method !== 'GET' && isCrossOrigin(req)) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Cross-origin writes are not allowed' }));
+    return;
+  }
   
   // Pages
   if (url.pathname === '/' || url.pathname === '/index.html') {
@@ -1279,17 +1937,167 @@ const server = http.createServer(async (req, res) => {
   // API: Memory Search
   if (url.pathname === '/memory/search') {
     const q = url.searchParams.get('q') || '';
-    const mode = (url.searchParams.get('mode') || 'hybrid') as SearchMode;
     const limit = parseInt(url.searchParams.get('limit') || '20');
-    const source = url.searchParams.get('source') || undefined;
+    const sources = splitList(url.searchParams.get('source'));
+    const kinds = splitList(url.searchParams.get('kind'));
+    const tags = splitList(url.searchParams.get('tag'));
+    const since = url.searchParams.get('since') || undefined;
+    const until = url.searchParams.get('until') || undefined;
+    const entityId = url.searchParams.get('entity') || undefined;
+    const explain = url.searchParams.get('explain') === '1';
+    const envelope = url.searchParams.get('envelope') === '1';
+    const facets = envelope && url.searchParams.get('facets') === '1';
+    const offset = parseInt(url.searchParams.get('offset') || '0') || undefined;
+    const cursor = url.searchParams.get('cursor') || undefined;
+    const dedupe = url.searchParams.get('dedupe') === '1';
+    const rerank = url.searchParams.get('rerank') === '0' ? false : undefined;
     
     try {
-      const results = await backend.search({ query: q, mode, limit, sources: source ? [source] : undefined });
+      const mode = parseSearchMode(url.searchParams.get('mode')) ?? 'hybrid';
+      const request = applyQuerySyntax({ query: q, mode, limit, sources, kinds, tags, since, until, entityId, explain, facets, offset, cursor, dedupe, rerank });
+      // envelope=1: { items, took_ms, mode_requested, mode_used, total_candidates, degraded, facets, next_cursor }
+      const results = envelope ? await searchWithMeta(backend, request) : await backend.search(request);
+      // history=1 (search page): remember first pages of searches run by a person
+      if (url.searchParams.get('history') === '1' && !cursor) {
+        try {
+          savedSearches.recordHistory(normalizeSearchParams(Object.fromEntries(url.searchParams)), Array.isArray(results) ? results.length : results.items.length);
+        } catch (err: any) {
+          console.error('[History] Failed to record search:', err?.message ?? err);
+        }
+      }
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(results));
     } catch (err: any) {
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: err.message }));
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Saved searches
+  if (url.pathname === '/searches/saved') {
+    try {
+      if (req.method === 'POST') {
+        const data = await readJsonBody(req);
+        const saved = savedSearches.save(String(data.name || ''), normalizeSearchParams(data.params));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(saved));
+      } else if (req.method === 'DELETE') {
+        const id = parseInt(url.searchParams.get('id') || '0');
+        const deleted = savedSearches.deleteSaved(id);
+        watcher.remove(id);
+        res.writeHead(deleted ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(deleted ? { ok: true } : { error: 'Saved search not found' }));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(savedSearches.listSaved()));
+      }
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Watches (saved searches re-run on an interval)
+  if (url.pathname === '/searches/watches') {
+    try {
+      if (req.method === 'POST') {
+        const data = await readJsonBody(req);
+        const watch = watcher.upsert(parseInt(data.saved_id), { interval_s: data.interval_s, enabled: data.enabled, webhook_url: data.webhook_url });
+        // Record the baseline right away so that only later memories notify
+        await watcher.run(watch.saved_id);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(watcher.list().find((w) => w.saved_id === watch.saved_id) ?? watch));
+      } else if (req.method === 'DELETE') {
+        const deleted = watcher.remove(parseInt(url.searchParams.get('id') || '0'));
+        res.writeHead(deleted ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(deleted ? { ok: true } : { error: 'Watch not found' }));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(watcher.list()));
+      }
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Watch notifications
+  if (url.pathname === '/searches/notifications') {
+    try {
+      if (req.method === 'POST') {
+        const data = await readJsonBody(req);
+        watcher.markRead(Array.isArray(data.ids) ? data.ids.map(Number) : undefined);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true }));
+      } else {
+        const unreadOnly = url.searchParams.get('unread') === '1';
+        const limit = parseInt(url.searchParams.get('limit') || '50');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(watcher.notifications({ unreadOnly, limit })));
+      }
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Search history
+  if (url.pathname === '/searches/history') {
+    try {
+      if (req.method === 'DELETE') {
+        savedSearches.clearHistory();
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true }));
+      } else {
+        const limit = parseInt(url.searchParams.get('limit') || '50');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(savedSearches.listHistory(limit)));
+      }
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Similar memories ("more like this")
+  if (url.pathname === '/memory/similar') {
+    const id = url.searchParams.get('id') || '';
+    const limit = parseInt(url.searchParams.get('limit') || '10');
+    if (!id || !backend.findSimilar) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: id ? 'Similar search not supported by backend' : 'Missing id' }));
+      return;
+    }
+    
+    try {
+      const results = await backend.findSimilar(id, limit);
+      if (!results) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Memory item not found: ' + id }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(results));
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Search quality evaluation against the golden set
+  // (GET: clawscope.golden.json or CLAWSCOPE_GOLDEN_PATH; POST: a set in the body)
+  if (url.pathname === '/memory/eval') {
+    try {
+      const set = req.method === 'POST'
+        ? parseGoldenSet(await readJsonBody(req))
+        : loadGoldenSet(process.env.CLAWSCOPE_GOLDEN_PATH || path.join(process.cwd(), 'clawscope.golden.json'));
+      const cutoff = parseInt(url.searchParams.get('cutoff') || String(loadLocalSettings().topK || 10));
+      if (!(cutoff > 0)) throw new ValidationError(`Invalid cutoff: ${url.searchParams.get('cutoff')}`);
+      const report = await runEval(set, memoryBackendsByWeight(memoryOptions), { cutoff });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(report));
+    } catch (err: any) {
+      sendError(res, err);
     }
     return;
   }
@@ -1311,18 +2119,17 @@ const server = http.createServer(async (req, res) => {
   // API: Memory Stats
   if (url.pathname === '/memory/stats') {
     try {
-      const db = openDb(getDbPath());
-      runMigrations(db);
-      initSchema(db);
+      const db = getMemoryDb(getDbPath());
       const stats = getGraphStats(db);
       // Also count items directly
-      const itemCount = db.prepare('SELECT COUNT(*) as count FROM items').get() as { count: number };
+      const itemCount = prepareCached(db, 'SELECT COUNT(*) as count FROM items').get() as { count: number };
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
         totalItems: itemCount?.count || 0,
         totalFacts: stats.totalFacts || 0,
         totalEntities: stats.totalEntities || 0,
-        totalPredicates: stats.totalPredicates || 0
+        totalPredicates: stats.totalPredicates || 0,
+        embeddingCache: memoryBackend.queryCacheStats(),
       }));
     } catch (err: any) {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -1334,11 +2141,9 @@ const server = http.createServer(async (req, res) => {
   // API: Memory Items (for DB page)
   if (url.pathname === '/memory/items') {
     try {
-      const db = openDb(getDbPath());
-      runMigrations(db);
-      initSchema(db);
+      const db = getMemoryDb(getDbPath());
       const limit = parseInt(url.searchParams.get('limit') || '50');
-      const items = db.prepare('SELECT id, source, text, tags, created_at FROM items ORDER BY created_at DESC LIMIT ?').all(limit);
+      const items = prepareCached(db, 'SELECT id, source, text, tags, created_at FROM items ORDER BY created_at DESC LIMIT ?').all(limit);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(items));
     } catch {
@@ -1451,9 +2256,7 @@ const server = http.createServer(async (req, res) => {
       const minConf = parseFloat(url.searchParams.get('minConfidence') || '0');
       const entity = url.searchParams.get('entity') || undefined;
       
-      const db = openDb(getDbPath());
-      runMigrations(db);
-      initSchema(db);
+      const db = getMemoryDb(getDbPath());
       
       let graphData: { nodes: any[]; edges: any[] } = { nodes: [], edges: [] };
       
@@ -1522,19 +2325,57 @@ const server = http.createServer(async (req, res) => {
     return;
   }
   
-  // API: Extract Facts
-  if (url.pathname === '/extract-facts') {
+  // API: Local docs index
+  if (url.pathname === '/docs/status') {
     try {
-      const db = openDb(getDbPath());
-      runMigrations(db);
-      initSchema(db);
-      
-      const facts = await extractFactsSimple(getDbPath());
+      const settings = loadLocalSettings();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        dirs: settings.docDirs || [],
+        embeddings: !!settings.docEmbeddings,
+        indexing: !!docsIndexing,
+        ...docsBackend.stats(),
+        last_report: lastDocsReport,
+      }));
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  if (req.method === 'POST' && url.pathname === '/docs/settings') {
+    try {
+      const data = await readJsonBody(req);
+      const dirs = Array.isArray(data.dirs) ? data.dirs.map((d: any) => String(d).trim()).filter(Boolean) : [];
+      saveLocalSettings({ ...loadLocalSettings(), docDirs: dirs, docEmbeddings: !!data.embeddings });
+      const report = await reindexDocs();
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ success: true, count: facts.length }));
+      res.end(JSON.stringify(report));
     } catch (err: any) {
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: err.message }));
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  if (req.method === 'POST' && url.pathname === '/docs/reindex') {
+    try {
+      const report = await reindexDocs();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(report));
+    } catch (err: any) {
+      sendError(res, err);
+    }
+    return;
+  }
+  
+  // API: Extract Facts (rewrites the facts table of the live memory DB)
+  if (req.method === 'POST' && url.pathname === '/extract-facts') {
+    try {
+      const report = extractAllFacts(getDbPath());
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, count: report.factsInserted, ...report }));
+    } catch (err: any) {
+      sendError(res, err);
     }
     return;
   }
@@ -1547,3 +2388,14 @@ const server = http.createServer(async (req, res) => {
 server.listen(PORT, () => {
   console.log('ClawScope UI listening on http://0.0.0.0:' + PORT);
 });
+
+// Close database handles cleanly on shutdown
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    watcher.stop();
+    server.close();
+    closeMemoryDbs();
+    closeLocalStores();
+    process.exit(0);
+  });
+}
@@ -5,7 +5,6 @@ import http from 'http';
 import os from 'node:os';
 import path from 'node:path';
 import fs from 'node:fs';
-import crypto from 'node:crypto';
 import { exec as cpExec } from 'child_process';
 function promisifyExec(fn: any) {
   return (...args: any[]) =>
@@ -19,9 +18,13 @@ function promisifyExec(fn: any) {
       });
     });
 }
-import type { SearchBackend, SearchMode } from './search.js';
-import { getGraphStats, getEntityGraph, getAllFacts, exportGraphJson, extractFactsSimple, insertFact, deleteFactsBySourceItem, openDb, initSchema, runMigrations } from '@akashabot/openclaw-memory-offline-core';
-import Database from 'better-sqlite3';
+import { searchWithMeta, type SearchBackend, type SearchMode } from './search.js';
+import { applyQuerySyntax } from './query-syntax.js';
+import { getGraphStats, getEntityGraph, getAllFacts, exportGraphJson } from '@akashabot/openclaw-memory-offline-core';
+import { embeddingProviderFromEnv } from './embedding-provider.js';
+import { extractAllFacts } from './fact-extraction.js';
+import { loadLocalSettings, saveLocalSettings } from './local-settings.js';
+import { getMemoryDb } from './memory-db.js';
 
 const exec = promisifyExec(cpExec);
 
@@ -30,7 +33,7 @@ const { OfflineSqliteSearchBackend } = await import('./offline-sqlite-backend.js
 const { InMemoryActivityBackend } = await import('./activity-backend.js');
 const { InMemoryTaskBackend } = await import('./tasks-backend.js');
 
-const backend: SearchBackend = new OfflineSqliteSearchBackend();
+const backend: SearchBackend = new OfflineSqliteSearchBackend({ embeddingProvider: embeddingProviderFromEnv() });
 const activityBackend = new InMemoryActivityBackend();
 const taskBackend = new InMemoryTaskBackend();
 
@@ -1418,22 +1421,6 @@ async function fetchActivityFromPlugin(limit = 100): Promise<any> {
   }
 }
 
-const SETTINGS_PATH = process.env.CLAWSCOPE_SETTINGS_PATH || path.join(process.cwd(), 'clawscope.settings.json');
-
-function loadLocalSettings(): any {
-  try {
-    if (!fs.existsSync(SETTINGS_PATH)) return {};
-    const raw = fs.readFileSync(SETTINGS_PATH, 'utf8');
-    return JSON.parse(raw || '{}');
-  } catch {
-    return {};
-  }
-}
-
-function saveLocalSettings(data: any) {
-  fs.writeFileSync(SETTINGS_PATH, JSON.stringify(data, null, 2), 'utf8');
-}
-
 function patchOpenclawConfig(patch: any) {
   const ocPath = path.join(os.homedir(), '.openclaw', 'openclaw.json');
   const raw = fs.readFileSync(ocPath, 'utf8');
@@ -1651,7 +1638,8 @@ const server = http.createServer(async (req, res) => {
     const limit = parseInt(url.searchParams.get('limit') || String(cfg.topK || 20), 10);
 
     try {
-      const items = await backend.search({ query: q, mode, limit });
+      const request = applyQuerySyntax({ query: q, mode, limit });
+      const items = url.searchParams.get('envelope') === '1' ? await searchWithMeta(backend, request) : await backend.search(request);
       res.statusCode = 200;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify(items, null, 2));
@@ -1946,15 +1934,11 @@ const server = http.createServer(async (req, res) => {
     const limit = parseInt(url.searchParams.get('limit') || '200', 10);
     
     try {
-      const dbPath = path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
-      const db = new Database(dbPath);
-      db.pragma('journal_mode = WAL');
+      const db = getMemoryDb();
       
       const graphData = exportGraphJson(db, { entity, minConfidence, limit });
       const stats = getGraphStats(db);
       
-      db.close();
-      
       res.statusCode = 200;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ ...graphData, stats }, null, 2));
@@ -1980,14 +1964,12 @@ const server = http.createServer(async (req, res) => {
     const offset = Math.max(parseInt(url.searchParams.get('offset') || '0', 10), 0);
 
     try {
-      const dbPath = path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
-      const db = openDb(dbPath);
+      const db = getMemoryDb();
       const totalRow: any = db.prepare('SELECT COUNT(*) as count FROM items').get();
       const total = Number(totalRow?.count || 0);
       const items = db
         .prepare('SELECT id, created_at, entity_id, source, tags, text FROM items ORDER BY created_at DESC LIMIT ? OFFSET ?')
         .all(limit, offset);
-      db.close?.();
 
       res.statusCode = 200;
       res.setHeader('Content-Type', 'application/json');
@@ -2240,58 +2222,11 @@ const server = http.createServer(async (req, res) => {
   // Facts batch extraction
   if (req.method === 'POST' && url.pathname === '/facts/extract') {
     try {
-      const dbPath = path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
-      const db = openDb(dbPath);
-      runMigrations(db);
-      initSchema(db);
-
-      const rows = db.prepare('SELECT id, text, entity_id, created_at FROM items').all() as any[];
-      let factsInserted = 0;
-      let itemsProcessed = 0;
-
-      for (const row of rows) {
-        const text = String(row.text || '');
-        if (!text.trim()) continue;
-        const entityId = row.entity_id || undefined;
-
-        // replace existing facts for this item
-        deleteFactsBySourceItem(db, String(row.id));
-
-        const facts = extractFactsSimple(text, entityId);
-        for (const f of facts) {
-          insertFact(db, {
-            id: crypto.randomUUID(),
-            created_at: row.created_at || Date.now(),
-            subject: f.subject,
-            predicate: f.predicate,
-            object: f.object,
-            confidence: f.confidence,
-            source_item_id: String(row.id),
-            entity_id: entityId
-          });
-          factsInserted++;
-        }
-        itemsProcessed++;
-      }
-
-      // Tag items with facts
-      const factRows = db.prepare('SELECT DISTINCT source_item_id as id FROM facts WHERE source_item_id IS NOT NULL').all() as any[];
-      let tagsUpdated = 0;
-      for (const r of factRows) {
-        const id = String(r.id);
-        const item = db.prepare('SELECT tags FROM items WHERE id = ?').get(id) as { tags?: string } | undefined;
-        if (!item) continue;
-        const tags = (item.tags || '').split(',').map(t => t.trim()).filter(Boolean);
-        if (!tags.includes('fact')) {
-          tags.push('fact');
-          db.prepare('UPDATE items SET tags = ? WHERE id = ?').run(tags.join(','), id);
-          tagsUpdated++;
-        }
-      }
+      const report = extractAllFacts();
 
       res.statusCode = 200;
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ ok: true, itemsProcessed, factsInserted, tagsUpdated }));
+      res.end(JSON.stringify({ ok: true, ...report }));
     } catch (err: any) {
       res.statusCode = 500;
       res.setHeader('Content-Type', 'application/json');
@@ -2303,15 +2238,11 @@ const server = http.createServer(async (req, res) => {
   // Settings status API
   if (req.method === 'GET' && url.pathname === '/settings/status') {
     try {
-      const dbPath = path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
-      const db = new Database(dbPath);
-      db.pragma('journal_mode = WAL');
+      const db = getMemoryDb();
       
       const stats = getGraphStats(db);
       const factsCount = db.prepare('SELECT COUNT(*) as count FROM facts').get() as { count: number };
       const itemsCount = db.prepare('SELECT COUNT(*) as count FROM items').get() as { count: number };
-      
-      db.close();
 
       const cfg = loadLocalSettings();
       
@@ -0,0 +1,21 @@
+// src/local-settings.ts
+// ClawScope's own settings file (clawscope.settings.json), shared by the v1 and
+// v2 dashboards and the eval CLI. A missing or unreadable file means defaults.
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const SETTINGS_PATH = process.env.CLAWSCOPE_SETTINGS_PATH || path.join(process.cwd(), 'clawscope.settings.json');
+
+export function loadLocalSettings(): any {
+  try {
+    if (!fs.existsSync(SETTINGS_PATH)) return {};
+    return JSON.parse(fs.readFileSync(SETTINGS_PATH, 'utf8') || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveLocalSettings(data: any) {
+  fs.writeFileSync(SETTINGS_PATH, JSON.stringify(data, null, 2), 'utf8');
+}
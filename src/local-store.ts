@@ -0,0 +1,30 @@
+// src/local-store.ts
+// ClawScope's own SQLite store (docs index, saved searches, search history),
+// kept apart from the memory plugin's database. One connection per file.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+export function defaultStorePath() {
+  return path.join(os.homedir(), '.openclaw', 'clawscope', 'clawscope.sqlite');
+}
+
+const stores = new Map<string, Database.Database>();
+
+export function openLocalStore(dbPath = defaultStorePath()): Database.Database {
+  const existing = stores.get(dbPath);
+  if (existing) return existing;
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  stores.set(dbPath, db);
+  return db;
+}
+
+export function closeLocalStores() {
+  for (const db of stores.values()) db.close();
+  stores.clear();
+}
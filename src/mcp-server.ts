@@ -5,20 +5,19 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import childProcess from 'child_process';
+import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import {
-  openDb,
-  initSchema,
-  runMigrations,
-  searchItems,
-  hybridSearch,
   getEntityGraph,
   getAllFacts,
   getGraphStats,
   exportGraphJson,
-  type MemConfig,
 } from '@akashabot/openclaw-memory-offline-core';
+import { embeddingProviderFromEnv } from './embedding-provider.js';
+import { closeMemoryDbs, getMemoryDb } from './memory-db.js';
+import { OfflineSqliteSearchBackend } from './offline-sqlite-backend.js';
+import { applyQuerySyntax } from './query-syntax.js';
 
 const exec = (cmd: string, options?: any): Promise<{ stdout: string; stderr: string }> => {
   return new Promise((resolve, reject) => {
@@ -32,10 +31,19 @@ const exec = (cmd: string, options?: any): Promise<{ stdout: string; stderr: str
 // Default DB path
 const DB_PATH = process.env.OPENCLAW_MEMORY_DB || path.join(os.homedir(), '.openclaw', 'memory', 'offline.sqlite');
 
-// Initialize database
-const db = openDb(DB_PATH);
-initSchema(db);
-runMigrations(db);
+// Opened by the memory tools on first use, so that the server starts (and the
+// other tools work) before the memory plugin has created its database.
+function memoryDb(): any {
+  if (!fs.existsSync(DB_PATH)) throw new Error(`Memory database not found: ${DB_PATH}`);
+  return getMemoryDb(DB_PATH);
+}
+
+// A failed memory tool call, flagged as an error for the client.
+function toolError(e: any) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify({ error: e?.message ?? String(e) }) }], isError: true };
+}
+
+const searchBackend = new OfflineSqliteSearchBackend({ dbPath: DB_PATH, embeddingProvider: embeddingProviderFromEnv() });
 
 // Create MCP server
 const server = new McpServer({
@@ -180,16 +188,57 @@ server.tool(
   'clawscope_search_memory',
   'Search the offline memory database (hybrid search)',
   {
-    query: z.string().describe('Search query'),
-    limit: z.number().optional().describe('Max results (default: 10)')
+    query: z.string().describe('Search query; supports source:, tag:, before:, after:, entity:, "exact phrase" and -excluded'),
+    limit: z.number().optional().describe('Max results (default: 10)'),
+    mode: z.enum(['lexical', 'semantic', 'hybrid']).optional().describe('Search mode (default: hybrid)'),
+    sources: z.array(z.string()).optional().describe('Only items from these sources'),
+    tags: z.array(z.string()).optional().describe('Only items carrying all of these tags'),
+    entityId: z.string().optional().describe('Only items for this entity_id'),
+    since: z.string().optional().describe('Only items created on/after this ISO date'),
+    until: z.string().optional().describe('Only items created before this ISO date'),
+    explain: z.boolean().optional().describe('Attach ranking debug info (FTS rank, similarity, positions) to each result'),
+    dedupe: z.boolean().optional().describe('Collapse near-duplicate memories into one result with a duplicates count')
   },
   async (params) => {
     try {
+      memoryDb();
       const limit = params.limit ?? 10;
-      const result = searchItems(db, params.query, limit);
+      const result = await searchBackend.search(applyQuerySyntax({
+        query: params.query,
+        mode: params.mode,
+        limit,
+        sources: params.sources,
+        tags: params.tags,
+        entityId: params.entityId,
+        since: params.since,
+        until: params.until,
+        explain: params.explain,
+        dedupe: params.dedupe,
+      }));
       return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
     } catch (e: any) {
-      return { content: [{ type: 'text', text: JSON.stringify({ error: e.message }) }] };
+      return toolError(e);
+    }
+  }
+);
+
+server.tool(
+  'clawscope_similar_memories',
+  'Find memories similar to an existing memory item (nearest neighbours by embedding)',
+  {
+    id: z.string().describe('Memory item id'),
+    limit: z.number().optional().describe('Max results (default: 10)')
+  },
+  async (params) => {
+    try {
+      memoryDb();
+      const result = await searchBackend.findSimilar(params.id, params.limit ?? 10);
+      if (!result) {
+        return { content: [{ type: 'text', text: JSON.stringify({ error: `Memory item not found: ${params.id}` }) }] };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (e: any) {
+      return toolError(e);
     }
   }
 );
@@ -202,6 +251,7 @@ server.tool(
   },
   async (params) => {
     try {
+      const db = memoryDb();
       if (params.entity) {
         const graph = getEntityGraph(db, params.entity);
         return { content: [{ type: 'text', text: JSON.stringify(graph, null, 2) }] };
@@ -210,7 +260,7 @@ server.tool(
         return { content: [{ type: 'text', text: JSON.stringify(graph, null, 2) }] };
       }
     } catch (e: any) {
-      return { content: [{ type: 'text', text: JSON.stringify({ error: e.message }) }] };
+      return toolError(e);
     }
   }
 );
@@ -221,10 +271,10 @@ server.tool(
   {},
   async () => {
     try {
-      const stats = getGraphStats(db);
+      const stats = getGraphStats(memoryDb());
       return { content: [{ type: 'text', text: JSON.stringify(stats, null, 2) }] };
     } catch (e: any) {
-      return { content: [{ type: 'text', text: JSON.stringify({ error: e.message }) }] };
+      return toolError(e);
     }
   }
 );
@@ -237,6 +287,14 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('[ClawScope MCP Server] Running on stdio');
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+      await server.close();
+      closeMemoryDbs();
+      process.exit(0);
+    });
+  }
 }
 
 main().catch(console.error);
@@ -0,0 +1,88 @@
+// src/memory-db.ts
+// Shared connections to the memory plugin's database, opened on first use,
+// with prepared statements cached per connection.
+//
+// The agent writes to this file while ClawScope runs, so reads go through a
+// read-only connection that never migrates (getMemoryDb). Writes such as fact
+// extraction and tag updates go through getMemoryWriter, the only path that
+// runs migrations.
+
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+import {
+  openDb,
+  initSchema,
+  runMigrations,
+} from '@akashabot/openclaw-memory-offline-core';
+
+export function defaultDbPath() {
+  // Same default as the memory-offline-sqlite plugin: ~/.openclaw/memory/offline.sqlite
+  const base = path.join(os.homedir(), '.openclaw', 'memory');
+  return path.join(base, 'offline.sqlite');
+}
+
+// Filter combinations produce distinct SQL; keep the cache bounded.
+const MAX_STATEMENTS = 200;
+// How long a statement waits on the agent's write lock before SQLITE_BUSY.
+const BUSY_TIMEOUT_MS = 5000;
+
+const readers = new Map<string, any>();
+const writers = new Map<string, any>();
+const statements = new WeakMap<object, Map<string, any>>();
+
+// Read-only (SQLITE_OPEN_READONLY, the same as a ?mode=ro URI): no migrations,
+// no journal_mode change, and readers never block the agent's WAL writer.
+export function getMemoryDb(dbPath = defaultDbPath()): any {
+  const existing = readers.get(dbPath);
+  if (existing) return existing;
+
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  readers.set(dbPath, db);
+  return db;
+}
+
+export function getMemoryWriter(dbPath = defaultDbPath()): any {
+  const existing = writers.get(dbPath);
+  if (existing) return existing;
+
+  const db = openDb(dbPath);
+  db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  runMigrations(db); // Run migrations FIRST to add missing columns
+  initSchema(db);    // Then init schema (creates indexes)
+  writers.set(dbPath, db);
+  return db;
+}
+
+// db.prepare() with a per-connection cache keyed by SQL text.
+export function prepareCached(db: any, sql: string): any {
+  let cache = statements.get(db);
+  if (!cache) {
+    cache = new Map();
+    statements.set(db, cache);
+  }
+
+  const cached = cache.get(sql);
+  if (cached) return cached;
+
+  const stmt = db.prepare(sql);
+  if (cache.size >= MAX_STATEMENTS) cache.delete(cache.keys().next().value!);
+  cache.set(sql, stmt);
+  return stmt;
+}
+
+export function closeMemoryDbs() {
+  for (const connections of [readers, writers]) {
+    for (const [dbPath, db] of connections) {
+      try {
+        db.close();
+      } catch (err: any) {
+        console.error(`[MemoryDb] Failed to close ${dbPath}:`, err?.message ?? err);
+      }
+      statements.delete(db);
+    }
+    connections.clear();
+  }
+}
@@ -0,0 +1,56 @@
+// src/memory-ranking.ts
+// Scoring used to rank memories, separate from the SQL that selects candidates.
+//
+// ClawScope does not call the core's hybridSearch(): that helper picks its own
+// candidates and takes no filter, so source / date / tag / entity filters could
+// only be applied to its output, and a filtered query would come back with a
+// short page. The backend selects candidates itself (FTS5 rows, or stored
+// vectors for semantic search) with the filters in that SQL, then scores them
+// here:
+//
+//   lexical = -bm25                        (higher is better)
+//   hybrid  = w * cosine + (1 - w) * lexical / max(lexical over the pool)
+//
+// This is the plugin's recall() ranking reimplemented; keep the two in line
+// when either changes. test/memory-ranking.test.ts pins the formulas.
+
+// bm25() is "lower is better"; negated so that every score sorts descending.
+export function lexicalScore(bm25Rank: number): number {
+  return -bm25Rank;
+}
+
+// Items without a comparable vector get no semantic contribution.
+export function hybridScore(semantic: number | undefined, lexical: number, maxLexical: number, semanticWeight: number): number {
+  return semanticWeight * (semantic ?? 0) + (1 - semanticWeight) * (lexical / (maxLexical || 1));
+}
+
+// Stored item embeddings are either a Float32 BLOB or a JSON array.
+export function decodeEmbedding(raw: unknown): number[] | null {
+  if (!raw) return null;
+  if (Buffer.isBuffer(raw)) {
+    return Array.from(new Float32Array(new Uint8Array(raw).buffer));
+  }
+  if (typeof raw === 'string') {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.map(Number) : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = Math.min(a.length, b.length);
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < n; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  if (!na || !nb) return 0;
+  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+}
@@ -1,40 +1,44 @@
 // src/offline-sqlite-backend.ts
 // SearchBackend implementation backed by openclaw-memory-offline-sqlite core.
 
-import os from 'node:os';
-import path from 'node:path';
-
-import {
-  openDb,
-  initSchema,
-  runMigrations,
-  searchItems,
-  hybridSearch,
-  type MemConfig,
-  type LexicalResult,
-  type HybridResult,
-} from '@akashabot/openclaw-memory-offline-core';
-
-import type { SearchBackend, SearchRequest, SearchItem, SearchMode } from './search.js';
+import { searchItems } from '@akashabot/openclaw-memory-offline-core';
+
+import { EmbeddingCache, type EmbeddingCacheStats } from './embedding-cache.js';
+import { OllamaEmbeddingProvider, type EmbeddingProvider } from './embedding-provider.js';
+import { ValidationError } from './errors.js';
+import { defaultDbPath, getMemoryDb, prepareCached } from './memory-db.js';
+import { cosineSimilarity, decodeEmbedding, hybridScore, lexicalScore } from './memory-ranking.js';
+import { rerank, rerankEnabled, type RerankOptions } from './rerank.js';
+import { compareRanked, createdAtMs, paginate, rankingDepth, resolvePosition, type RankKey, type SearchBackend, type SearchRequest, type SearchItem, type SearchMode, type SearchResponse, type SearchFacets, type FacetCount, type ScoreBoost } from './search.js';
+import { buildSnippet, queryTerms } from './snippet.js';
 
 export type OfflineBackendOptions = {
   dbPath?: string;
-  defaultMode?: SearchMode;      // 'lexical' | 'semantic' | 'hybrid' (semantic maps to hybrid)
+  defaultMode?: SearchMode;      // 'lexical' | 'semantic' | 'hybrid'
   defaultTopK?: number;          // final results count (limit)
   defaultCandidates?: number;    // pre‑selection size
   semanticWeight?: number;       // 0..1, weight of embedding score in hybrid
 
-  // Embedding backend (Ollama) configuration – should match memory-offline-sqlite plugin.
+  // Query embeddings: should match the model the memory-offline-sqlite plugin
+  // stores. Defaults to Ollama built from the three options below.
+  embeddingProvider?: EmbeddingProvider;
   ollamaBaseUrl?: string;
   embeddingModel?: string;
   ollamaTimeoutMs?: number;
-};
+  embeddingBackoffMs?: number;   // after an embedding failure, skip the provider for this long (lexical fallback)
 
-function defaultDbPath() {
-  // Same default as the memory-offline-sqlite plugin: ~/.openclaw/memory/offline.sqlite
-  const base = path.join(os.homedir(), '.openclaw', 'memory');
-  return path.join(base, 'offline.sqlite');
-}
+  // Near-duplicate thresholds (SearchRequest.dedupe)
+  dedupeEmbeddingSimilarity?: number; // cosine between stored embeddings
+  dedupeTextSimilarity?: number;      // Jaccard over word shingles, when a row has no embedding
+
+  // Query embedding cache (model + normalized query)
+  queryCacheSize?: number;       // in-memory LRU entries, 0 disables the cache
+  queryCachePersist?: boolean;   // also keep embeddings in ClawScope's local store
+
+  // Rerank stage (recency, source weights, tag boosts, cross-encoder); read on
+  // every search so that settings changes apply without a restart.
+  rerank?: () => RerankOptions | undefined;
+};
 
 export class OfflineSqliteSearchBackend implements SearchBackend {
   private cfg: Required<OfflineBackendOptions>;
@@ -49,125 +53,601 @@ export class OfflineSqliteSearchBackend implements SearchBackend {
       ollamaBaseUrl: options.ollamaBaseUrl ?? 'http://127.0.0.1:11434',
       embeddingModel: options.embeddingModel ?? 'bge-m3',
       ollamaTimeoutMs: options.ollamaTimeoutMs ?? 3000,
+      embeddingProvider: options.embeddingProvider ?? new OllamaEmbeddingProvider({
+        baseUrl: options.ollamaBaseUrl,
+        model: options.embeddingModel,
+        timeoutMs: options.ollamaTimeoutMs,
+      }),
+      embeddingBackoffMs: options.embeddingBackoffMs ?? 30_000,
+      dedupeEmbeddingSimilarity: options.dedupeEmbeddingSimilarity ?? 0.95,
+      dedupeTextSimilarity: options.dedupeTextSimilarity ?? 0.8,
+      queryCacheSize: options.queryCacheSize ?? 500,
+      queryCachePersist: options.queryCachePersist ?? true,
+      rerank: options.rerank ?? (() => undefined),
     };
+    this.queryCache = this.cfg.queryCacheSize > 0
+      ? new EmbeddingCache({ maxEntries: this.cfg.queryCacheSize, persist: this.cfg.queryCachePersist })
+      : undefined;
   }
 
+  private queryCache?: EmbeddingCache;
+
+  // Embedding backoff state: while Date.now() < embedRetryAt, the provider is not called.
+  private embedRetryAt = 0;
+  private embedFailure = '';
+
+  // Item vectors computed by a local provider, by item id (see localItemVector).
+  private localVectors = new Map<string, { text: string; vec: number[] }>();
+
   async search(req: SearchRequest): Promise<SearchItem[]> {
+    return (await this.searchWithMeta(req)).items;
+  }
+
+  async searchWithMeta(req: SearchRequest): Promise<SearchResponse> {
+    const started = Date.now();
     const mode = (req.mode ?? this.cfg.defaultMode) as SearchMode;
     const limit = req.limit ?? this.cfg.defaultTopK;
     const candidates = req.k ?? this.cfg.defaultCandidates;
     const query = req.query.trim();
+    const position = resolvePosition(req);
+    const depth = rankingDepth(position, limit);
+    const rerankOptions = req.rerank === false ? undefined : this.cfg.rerank();
+    const reranking = rerankEnabled(rerankOptions);
+    // Collapsing shrinks the ranked list, and reranking can lift items from
+    // below the page, so rank deeper in both cases.
+    const rankDepth = req.dedupe || reranking ? Math.max(candidates, depth * 3) : depth;
+
+    const respond = (outcome: RankOutcome, items: SearchItem[], nextCursor?: string, facets?: SearchFacets): SearchResponse => ({
+      items,
+      took_ms: Date.now() - started,
+      mode_requested: mode,
+      mode_used: outcome.modeUsed,
+      total_candidates: outcome.candidates,
+      degraded: outcome.degraded,
+      facets,
+      next_cursor: nextCursor,
+    });
+    const empty: RankOutcome = { ranked: [], candidates: 0, modeUsed: mode };
+
+    // This backend only holds memories: a kinds filter without 'memory' can never match.
+    if (req.kinds?.length && !req.kinds.includes('memory')) return respond(empty, []);
 
-    if (!query) return [];
+    const filter = buildItemFilter(req);
+    if (!query && !filter.sql) return respond(empty, []);
 
-    const db = openDb(this.cfg.dbPath);
-    runMigrations(db); // Run migrations FIRST to add missing columns
-    initSchema(db);    // Then init schema (creates indexes)
+    const db = getMemoryDb(this.cfg.dbPath);
+
+    // Filters only (e.g. "tag:work"): list matching items, newest first. Pages
+    // are keyed on the creation time, as every score is 0.
+    if (!query) {
+      const rows = recentCandidates(db, filter, rankDepth);
+      const listKey = (r: RankedRow): RankKey => ({ score: createdAtMs(r.row.created_at) ?? 0, id: String(r.row.id) });
+      // Re-sorted by the key, as SQL orders ISO strings and older epoch values apart.
+      const listed = rows.map((row): RankedRow => ({ row, score: 0 })).sort((a, b) => compareRanked(listKey(a), listKey(b)));
+      const ranked = req.dedupe ? this.collapseDuplicates(listed) : listed;
+      const facets = req.facets ? facetCounts(db, filter) : undefined;
+      const { page, nextCursor } = paginate(req, ranked, position, limit, listKey);
+      const items = page.map((r) => withDuplicates(toSearchItem(r.row, { score: 0 }, []), r, []));
+      return respond({ ...empty, candidates: rows.length }, items, nextCursor, facets);
+    }
+
+    // Escape query via searchItems helper (same pattern as plugin recall())
+    const ftsQuery: string = searchItems(db, query, 1).escapedQuery;
 
+    let outcome: RankOutcome;
     if (mode === 'lexical') {
-      return this.searchLexical(db, query, limit);
+      outcome = this.rankLexical(db, ftsQuery, filter, rankDepth);
+    } else {
+      const embedded = await this.embedSearchQuery(query);
+      if (!embedded.vec) {
+        // Embedding provider down: serve lexical results rather than failing the request.
+        outcome = { ...this.rankLexical(db, ftsQuery, filter, rankDepth), degraded: `${embedded.error}; results are lexical-only` };
+      } else if (mode === 'semantic') {
+        outcome = this.rankSemantic(db, embedded.vec, filter, rankDepth);
+      } else {
+        outcome = this.rankHybrid(db, embedded.vec, ftsQuery, filter, rankDepth, Math.max(candidates, rankDepth));
+      }
     }
 
-    // For now, "semantic" and "hybrid" both go through the hybridSearch helper.
-    return this.searchHybrid(db, query, limit, candidates);
-  }
-
-  private async searchLexical(db: any, query: string, limit: number): Promise<SearchItem[]> {
-    const res = searchItems(db, query, limit);
-    const results = (res.results ?? []) as LexicalResult[];
-
-    return results.map((r) => {
-      const item = (r as any).item ?? (r as any);
-      const text: string = String(item.text ?? '');
-
-      return {
-        id: String(item.id),
-        kind: 'memory',
-        source: item.source ?? 'openclaw',
-        title: item.title ?? undefined,
-        snippet: buildSnippet(text),
-        score: (r as any).score ?? (r as any).lexicalScore ?? 0,
-        score_fts: (r as any).lexicalScore ?? (r as any).score ?? undefined,
-        score_embed: undefined,
-        created_at: item.created_at ?? undefined,
-        payload: {
-          memory_id: item.id,
-          text,
-          tags: item.tags ?? null,
-          source: item.source ?? null,
-          source_id: item.source_id ?? null,
-        },
-      } satisfies SearchItem;
+    // Before collapsing, so that a boosted copy (e.g. the fresher one) represents its cluster.
+    if (reranking) {
+      const reranked = await rerank(query, outcome.ranked, rerankOptions!, position.asOf);
+      outcome.ranked.sort(byScore);
+      if (reranked.degraded) outcome.degraded = [outcome.degraded, reranked.degraded].filter(Boolean).join('; ');
+    }
+
+    const ranked = req.dedupe ? this.collapseDuplicates(outcome.ranked) : outcome.ranked;
+    const terms = queryTerms(query);
+    const { page, nextCursor } = paginate(req, ranked, position, limit, rankKey);
+    const items = page.map((r) => {
+      const item = toSearchItem(r.row, { score: r.score, score_fts: r.lexical, score_embed: r.semantic, score_base: r.baseScore, score_boosts: r.boosts }, terms);
+      if (req.explain) {
+        item.explain = {
+          mode: outcome.modeUsed,
+          fts_query: outcome.modeUsed === 'semantic' ? undefined : ftsQuery,
+          fts_rank: r.ftsRank,
+          semantic_similarity: r.semantic,
+          semantic_weight: outcome.modeUsed === 'hybrid' ? this.cfg.semanticWeight : undefined,
+          lexical_position: r.lexicalPosition,
+          semantic_position: r.semanticPosition,
+        };
+      }
+      return withDuplicates(item, r, terms);
     });
+
+    let facets: SearchFacets | undefined;
+    if (req.facets) {
+      // The matching set is what the mode ranks: FTS matches for lexical and
+      // hybrid, every filtered item with a vector for semantic.
+      const matchSet: ItemFilter = outcome.modeUsed !== 'semantic'
+        ? { sql: ' AND i.rowid IN (SELECT rowid FROM items_fts WHERE items_fts MATCH ?)', params: [ftsQuery] }
+        : { sql: this.cfg.embeddingProvider.embedSync ? '' : ' AND i.embedding IS NOT NULL', params: [] };
+      facets = facetCounts(db, { sql: matchSet.sql + filter.sql, params: [...matchSet.params, ...filter.params] });
+    }
+
+    return respond(outcome, items, nextCursor, facets);
   }
 
-  private async searchHybrid(db: any, query: string, limit: number, candidates: number): Promise<SearchItem[]> {
-    const memCfg: MemConfig = {
-      dbPath: this.cfg.dbPath,
-      ollamaBaseUrl: this.cfg.ollamaBaseUrl,
-      embeddingModel: this.cfg.embeddingModel,
-      ollamaTimeoutMs: this.cfg.ollamaTimeoutMs,
-    };
+  // Greedy clustering in rank order: each row joins the first higher-ranked
+  // representative it is close enough to, so the best-ranked copy is the one
+  // shown. Embeddings are compared when both rows have one, word shingles
+  // otherwise.
+  private collapseDuplicates(ranked: RankedRow[]): RankedRow[] {
+    const heads: { r: RankedRow; vec: number[] | null; shingles: Set<string> }[] = [];
 
-    // Escape query via searchItems helper (same pattern as plugin recall())
-    const escapedQuery = searchItems(db, query, 1).escapedQuery;
-    const results = (await hybridSearch(db, memCfg, escapedQuery, {
-      topK: limit,
-      candidates,
-      semanticWeight: this.cfg.semanticWeight,
-    })) as HybridResult[];
-
-    return results.map((r) => {
-      const item = (r as any).item ?? (r as any);
-      const text: string = String(item.text ?? '');
-
-      return {
-        id: String(item.id),
-        kind: 'memory',
-        source: item.source ?? 'openclaw',
-        title: item.title ?? undefined,
-        snippet: buildSnippet(text),
-        score: (r as any).score ?? 0,
-        score_fts: (r as any).lexicalScore ?? undefined,
-        score_embed: (r as any).semanticScore ?? undefined,
-        created_at: item.created_at ?? undefined,
-        payload: {
-          memory_id: item.id,
-          text,
-          tags: item.tags ?? null,
-          source: item.source ?? null,
-          source_id: item.source_id ?? null,
-        },
-      } satisfies SearchItem;
+    for (const r of ranked) {
+      const vec = decodeEmbedding(r.row.embedding);
+      const shingles = textShingles(String(r.row.text ?? ''));
+      const head = heads.find((h) => (vec && h.vec)
+        ? cosineSimilarity(vec, h.vec) >= this.cfg.dedupeEmbeddingSimilarity
+        : jaccard(shingles, h.shingles) >= this.cfg.dedupeTextSimilarity);
+
+      if (head) (head.r.duplicates ??= []).push(r);
+      else heads.push({ r: { ...r }, vec, shingles });
+    }
+
+    return heads.map((h) => h.r);
+  }
+
+  private rankLexical(db: any, ftsQuery: string, filter: ItemFilter, limit: number): RankOutcome {
+    const ranked = ftsCandidates(db, ftsQuery, filter, limit).map((c, i): RankedRow => ({
+      row: c.row,
+      score: c.lexical,
+      lexical: c.lexical,
+      ftsRank: c.rank,
+      lexicalPosition: i + 1,
+    }));
+
+    return { ranked, candidates: ranked.length, modeUsed: 'lexical' };
+  }
+
+  // Search queries repeat (re-runs, watches, MCP calls); other texts are not
+  // cached, nor is anything a local provider computes faster than a lookup.
+  private async embedSearchQuery(query: string): Promise<Embedded> {
+    const provider = this.cfg.embeddingProvider;
+    const cache = provider.embedSync ? undefined : this.queryCache;
+    const cached = cache?.get(provider.name, query);
+    if (cached) return { vec: cached };
+
+    const embedded = await this.embedQuery(query);
+    if (embedded.vec) cache?.set(provider.name, query, embedded.vec);
+    return embedded;
+  }
+
+  private async embedQuery(query: string): Promise<Embedded> {
+    if (Date.now() < this.embedRetryAt) {
+      const retryIn = Math.ceil((this.embedRetryAt - Date.now()) / 1000);
+      return { vec: null, error: `${this.embedFailure} (retrying in ${retryIn}s)` };
+    }
+
+    try {
+      const vec = await this.cfg.embeddingProvider.embed(query);
+      this.embedRetryAt = 0;
+      return { vec };
+    } catch (err: any) {
+      this.embedFailure = err?.message ?? String(err);
+      this.embedRetryAt = Date.now() + this.cfg.embeddingBackoffMs;
+      return { vec: null, error: this.embedFailure };
+    }
+  }
+
+  // Embedding-only ranking: every stored vector is a candidate, so items with no
+  // lexical overlap with the query can still be found.
+  private rankSemantic(db: any, queryVec: number[], filter: ItemFilter, limit: number): RankOutcome {
+    const { scored, scanned } = vectorCandidates(db, queryVec, filter, limit, this.itemVectors(queryVec.length));
+
+    const ranked = scored.map((c, i): RankedRow => ({
+      row: c.row,
+      score: c.semantic,
+      semantic: c.semantic,
+      semanticPosition: i + 1,
+    }));
+
+    return { ranked, candidates: scanned, modeUsed: 'semantic' };
+  }
+
+  private rankHybrid(db: any, queryVec: number[], ftsQuery: string, filter: ItemFilter, limit: number, candidates: number): RankOutcome {
+    const pool = ftsCandidates(db, ftsQuery, filter, candidates);
+    if (!pool.length) return { ranked: [], candidates: 0, modeUsed: 'hybrid' };
+
+    const maxLexical = Math.max(...pool.map((c) => c.lexical), 0);
+    const vectorOf = this.itemVectors(queryVec.length);
+
+    const ranked: RankedRow[] = pool.map((c, i) => {
+      const itemVec = vectorOf(c.row);
+      const semantic = itemVec ? cosineSimilarity(queryVec, itemVec) : undefined;
+      const score = hybridScore(semantic, c.lexical, maxLexical, this.cfg.semanticWeight);
+      return { row: c.row, score, lexical: c.lexical, ftsRank: c.rank, semantic, lexicalPosition: i + 1 };
     });
+
+    const withEmbedding = ranked.filter((r) => r.semantic !== undefined);
+    withEmbedding
+      .sort((a, b) => b.semantic! - a.semantic!)
+      .forEach((r, i) => { r.semanticPosition = i + 1; });
+
+    const degraded = withEmbedding.length ? undefined : 'No stored embeddings for the matching memories; results are lexical-only';
+
+    ranked.sort(byScore);
+    return {
+      ranked: ranked.slice(0, limit),
+      candidates: pool.length,
+      modeUsed: degraded ? 'lexical' : 'hybrid',
+      degraded,
+    };
+  }
+
+  // Nearest neighbours of a stored memory by embedding, excluding the memory
+  // itself. Returns null when the id does not exist.
+  async findSimilar(id: string, limit = this.cfg.defaultTopK): Promise<SearchItem[] | null> {
+    const db = getMemoryDb(this.cfg.dbPath);
+
+    const row = prepareCached(db, 'SELECT * FROM items WHERE id = ?').get(id) as any;
+    if (!row) return null;
+
+    // A local provider embeds every item itself, so its own vector is used here too.
+    let vec = this.cfg.embeddingProvider.embedSync ? this.localItemVector(row) : decodeEmbedding(row.embedding);
+    if (!vec) {
+      const embedded = await this.embedQuery(String(row.text ?? ''));
+      if (!embedded.vec) throw new Error(`No stored embedding for ${id}: ${embedded.error}`);
+      vec = embedded.vec;
+    }
+
+    const { scored } = vectorCandidates(db, vec, { sql: ' AND i.id != ?', params: [id] }, limit, this.itemVectors(vec.length));
+    return scored.map((c) => toSearchItem(c.row, { score: c.semantic, score_embed: c.semantic }, []));
+  }
+
+  // A stored item's vector, comparable to a query vector of `dimensions`: its
+  // stored embedding when the sizes match (same model), otherwise one computed
+  // on the fly when the provider is local, otherwise none.
+  private itemVectors(dimensions: number): ItemVectors {
+    const provider = this.cfg.embeddingProvider;
+    const vectorOf = (row: any) => {
+      const stored = decodeEmbedding(row.embedding);
+      if (stored && stored.length === dimensions) return stored;
+      return provider.embedSync ? this.localItemVector(row) : null;
+    };
+    return Object.assign(vectorOf, { local: !!provider.embedSync });
+  }
+
+  // Semantic search scans every item, so a local provider's item vectors are
+  // kept rather than recomputed per query. An entry is replaced when the
+  // item's text changes; the oldest go first past MAX_LOCAL_VECTORS.
+  private localItemVector(row: any): number[] {
+    const id = String(row.id);
+    const text = String(row.text ?? '');
+    const cached = this.localVectors.get(id);
+    if (cached && cached.text === text) return cached.vec;
+
+    const vec = this.cfg.embeddingProvider.embedSync!(text);
+    this.localVectors.delete(id);
+    this.localVectors.set(id, { text, vec });
+    if (this.localVectors.size > MAX_LOCAL_VECTORS) this.localVectors.delete(this.localVectors.keys().next().value!);
+    return vec;
+  }
+
+  // Embedding with the memory model and the same backoff, for other indexes
+  // (e.g. local docs) that want vectors comparable to the memories'.
+  async embed(text: string): Promise<number[] | null> {
+    return (await this.embedQuery(text)).vec;
   }
 
   async getCategories(): Promise<{ tag: string; count: number }[]> {
     return getMemoryCategories(this.cfg.dbPath);
   }
+
+  queryCacheStats(): EmbeddingCacheStats | null {
+    return this.queryCache?.stats() ?? null;
+  }
 }
 
-function buildSnippet(text: string, maxLen = 220): string {
-  const singleLine = text.replace(/\s+/g, ' ').trim();
-  if (singleLine.length <= maxLen) return singleLine;
-  return singleLine.slice(0, maxLen) + '…';
+// Larger than most memory databases, so that a full scan does not evict its own entries.
+const MAX_LOCAL_VECTORS = 100_000;
+
+// A query vector, or why there is none (the search then falls back to lexical).
+type Embedded = { vec: number[]; error?: undefined } | { vec: null; error: string };
+
+// Candidate row with the raw signals that produced its score.
+type RankedRow = {
+  row: any;
+  score: number;
+  lexical?: number;           // -bm25, higher is better
+  ftsRank?: number;           // raw bm25(), lower is better
+  semantic?: number;          // cosine similarity with the query embedding
+  lexicalPosition?: number;   // 1-based rank among FTS candidates
+  semanticPosition?: number;  // 1-based rank by similarity among candidates
+  baseScore?: number;         // score before the rerank boosts
+  boosts?: ScoreBoost[];
+  duplicates?: RankedRow[];   // near-duplicates collapsed into this row
+};
+
+type RankOutcome = {
+  ranked: RankedRow[];
+  candidates: number;
+  modeUsed: SearchMode;
+  degraded?: string;
+};
+
+function rankKey(r: RankedRow): RankKey {
+  return { score: r.score, id: String(r.row.id) };
+}
+
+// Highest score first; ties broken by id so that pages are stable.
+function byScore(a: RankedRow, b: RankedRow): number {
+  return compareRanked(rankKey(a), rankKey(b));
+}
+
+// SQL fragment (AND-prefixed) restricting `items i` according to a SearchRequest.
+// Filters are applied while selecting candidates so that a filtered query still
+// gets a full page of results.
+export type ItemFilter = { sql: string; params: unknown[] };
+
+export function buildItemFilter(req: SearchRequest): ItemFilter {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  const sources = (req.sources ?? []).map((s) => s.trim().toLowerCase()).filter(Boolean);
+  if (sources.length) {
+    clauses.push(`lower(i.source) IN (${sources.map(() => '?').join(', ')})`);
+    params.push(...sources);
+  }
+
+  if (req.since) {
+    const since = parseDate(req.since, 'since');
+    clauses.push(createdAtClause('>='));
+    params.push(since.getTime(), since.toISOString());
+  }
+
+  if (req.until) {
+    const until = parseDate(req.until, 'until');
+    clauses.push(createdAtClause('<'));
+    params.push(until.getTime(), until.toISOString());
+  }
+
+  // tags is a comma-separated column; compare against ",a,b," with spaces removed.
+  const tags = (req.tags ?? []).map(normalizeTag).filter(Boolean);
+  for (const tag of tags) {
+    clauses.push(`(',' || lower(replace(coalesce(i.tags, ''), ' ', '')) || ',') LIKE ?`);
+    params.push(`%,${tag},%`);
+  }
+
+  if (req.entityId) {
+    clauses.push('i.entity_id = ?');
+    params.push(req.entityId);
+  }
+
+  // Phrases and exclusions go through the FTS index so they follow the same
+  // tokenization as the lexical search, in every mode.
+  for (const phrase of req.phrases ?? []) {
+    clauses.push('i.rowid IN (SELECT rowid FROM items_fts WHERE items_fts MATCH ?)');
+    params.push(ftsPhrase(phrase));
+  }
+
+  for (const term of req.exclude ?? []) {
+    clauses.push('i.rowid NOT IN (SELECT rowid FROM items_fts WHERE items_fts MATCH ?)');
+    params.push(ftsPhrase(term));
+  }
+
+  return {
+    sql: clauses.map((c) => ` AND ${c}`).join(''),
+    params,
+  };
+}
+
+// created_at is an ISO string for most rows, but older plugin versions stored
+// epoch milliseconds. Takes two params: (epochMs, iso).
+function createdAtClause(op: '>=' | '<'): string {
+  return `(CASE WHEN typeof(i.created_at) IN ('integer', 'real') THEN i.created_at ${op} ? ELSE i.created_at ${op} ? END)`;
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new ValidationError(`Invalid ${name} date: ${value}`);
+  return date;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, '').toLowerCase();
+}
+
+function ftsPhrase(text: string): string {
+  return '"' + text.replace(/"/g, '""') + '"';
+}
+
+function recentCandidates(db: any, filter: ItemFilter, k: number): any[] {
+  return prepareCached(db, `
+    SELECT i.*
+    FROM items i
+    WHERE 1 = 1${filter.sql}
+    ORDER BY i.created_at DESC, i.id
+    LIMIT ?
+  `).all(...filter.params, k) as any[];
+}
+
+type LexicalCandidate = { row: any; lexical: number; rank: number };
+
+// FTS5 candidates joined back to items, best bm25 first.
+function ftsCandidates(db: any, escapedQuery: string, filter: ItemFilter, k: number): LexicalCandidate[] {
+  if (!escapedQuery) return [];
+
+  const rows = prepareCached(db, `
+    SELECT i.*, bm25(items_fts) AS fts_rank
+    FROM items_fts
+    JOIN items i ON i.rowid = items_fts.rowid
+    WHERE items_fts MATCH ?${filter.sql}
+    ORDER BY bm25(items_fts), i.id
+    LIMIT ?
+  `).all(escapedQuery, ...filter.params, k) as any[];
+
+  return rows.map((row) => {
+    const rank = Number(row.fts_rank) || 0;
+    return { row, lexical: lexicalScore(rank), rank };
+  });
+}
+
+type SemanticCandidate = { row: any; semantic: number };
+
+// Item vector lookup; `local` means items without a stored embedding get one too.
+type ItemVectors = ((row: any) => number[] | null) & { local: boolean };
+
+// Brute-force cosine scan over the filtered items that have a vector. The scan
+// reads ids and vectors (plus text for a local provider) only; full rows are
+// loaded for the top k.
+function vectorCandidates(db: any, queryVec: number[], filter: ItemFilter, k: number, vectorOf: ItemVectors): { scored: SemanticCandidate[]; scanned: number } {
+  const rows = prepareCached(db, `
+    SELECT i.id, i.embedding${vectorOf.local ? ', i.text' : ''}
+    FROM items i
+    WHERE ${vectorOf.local ? '1 = 1' : 'i.embedding IS NOT NULL'}${filter.sql}
+  `).all(...filter.params) as any[];
+
+  const scored: { id: string; semantic: number }[] = [];
+  for (const row of rows) {
+    const itemVec = vectorOf(row);
+    if (!itemVec) continue;
+    scored.push({ id: String(row.id), semantic: cosineSimilarity(queryVec, itemVec) });
+  }
+
+  // Ties broken by id so that pages are stable.
+  scored.sort((a, b) => b.semantic - a.semantic || a.id.localeCompare(b.id));
+
+  const byId = prepareCached(db, 'SELECT * FROM items WHERE id = ?');
+  const top = scored.slice(0, k)
+    .map((c) => ({ row: byId.get(c.id), semantic: c.semantic }))
+    .filter((c) => c.row);
+  return { scored: top, scanned: scored.length };
+}
+
+function toSearchItem(item: any, scores: { score: number; score_fts?: number; score_embed?: number; score_base?: number; score_boosts?: ScoreBoost[] }, terms: string[]): SearchItem {
+  const text: string = String(item.text ?? '');
+  const { snippet, highlights } = buildSnippet(text, terms);
+
+  return {
+    id: String(item.id),
+    kind: 'memory',
+    source: item.source ?? 'openclaw',
+    title: item.title ?? undefined,
+    snippet,
+    highlights,
+    score: scores.score,
+    score_fts: scores.score_fts,
+    score_embed: scores.score_embed,
+    score_base: scores.score_base,
+    score_boosts: scores.score_boosts,
+    created_at: item.created_at ?? undefined,
+    payload: {
+      memory_id: item.id,
+      text,
+      tags: item.tags ?? null,
+      source: item.source ?? null,
+      source_id: item.source_id ?? null,
+    },
+  } satisfies SearchItem;
+}
+
+function withDuplicates(item: SearchItem, r: RankedRow, terms: string[]): SearchItem {
+  if (!r.duplicates?.length) return item;
+  item.duplicates = r.duplicates.length;
+  item.duplicate_ids = r.duplicates.map((d) => String(d.row.id));
+  item.duplicate_items = r.duplicates.map((d) => toSearchItem(d.row, { score: d.score, score_fts: d.lexical, score_embed: d.semantic }, terms));
+  return item;
+}
+
+// Overlapping word 3-grams (or the single shingle of a shorter text).
+function textShingles(text: string, size = 3): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) shingles.add(words.slice(i, i + size).join(' '));
+  if (!shingles.size && words.length) shingles.add(words.join(' '));
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Same split/normalization as the Categories sidebar.
+function splitTags(tags: string | null | undefined): string[] {
+  return (tags || '').split(',').map((t: string) => t.trim().toLowerCase()).filter(Boolean);
+}
+
+function createdMonth(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return new Date(value).toISOString().slice(0, 7);
+  return String(value).slice(0, 7);
+}
+
+function topCounts(counts: Map<string, number>, max = 20): FacetCount[] {
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, max);
+}
+
+function facetCounts(db: any, filter: ItemFilter): SearchFacets {
+  const rows = prepareCached(db, `
+    SELECT i.source, i.tags, i.created_at, i.entity_id
+    FROM items i
+    WHERE 1 = 1${filter.sql}
+  `).all(...filter.params) as any[];
+
+  const source = new Map<string, number>();
+  const tag = new Map<string, number>();
+  const month = new Map<string, number>();
+  const entity = new Map<string, number>();
+  const bump = (m: Map<string, number>, key: string | null | undefined) => {
+    if (key) m.set(key, (m.get(key) || 0) + 1);
+  };
+
+  for (const row of rows) {
+    bump(source, row.source);
+    for (const t of splitTags(row.tags)) bump(tag, t);
+    bump(month, createdMonth(row.created_at));
+    bump(entity, row.entity_id);
+  }
+
+  return {
+    source: topCounts(source),
+    tag: topCounts(tag),
+    // Months read best chronologically, newest first.
+    month: topCounts(month, 24).sort((a, b) => b.value.localeCompare(a.value)),
+    entity: topCounts(entity),
+  };
 }
 
 // Get all unique tags/categories from memory
 export async function getMemoryCategories(dbPath?: string): Promise<{ tag: string; count: number }[]> {
-  const db = openDb(dbPath ?? defaultDbPath());
-  runMigrations(db); // Run migrations FIRST to add missing columns
-  initSchema(db);    // Then init schema (creates indexes)
+  const db = getMemoryDb(dbPath ?? defaultDbPath());
   
-  const rows = db.prepare(`
+  const rows = prepareCached(db, `
     SELECT tags FROM items WHERE tags IS NOT NULL AND tags != ''
   `).all() as { tags: string }[];
   
   const tagCounts = new Map<string, number>();
   
   for (const row of rows) {
-    const tags = (row.tags || '').split(',').map((t: string) => t.trim().toLowerCase()).filter(Boolean);
-    for (const tag of tags) {
+    for (const tag of splitTags(row.tags)) {
       tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
     }
   }
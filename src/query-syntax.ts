@@ -0,0 +1,118 @@
+// src/query-syntax.ts
+// Inline search operators for the global search box, e.g.
+//   billing source:whatsapp tag:work after:2026-01-01 "exact phrase" -draft
+// Shared by the HTTP API, the MCP server and any future CLI so that they all
+// understand the same syntax.
+
+import { ValidationError } from './errors.js';
+import type { SearchRequest } from './search.js';
+
+export type ParsedQuery = {
+  text: string;        // free text (phrases included) used for ranking
+  sources: string[];
+  tags: string[];
+  phrases: string[];
+  exclude: string[];
+  since?: string;      // after:
+  until?: string;      // before:
+  entityId?: string;   // entity:
+};
+
+const OPERATORS = new Set(['source', 'tag', 'before', 'after', 'entity']);
+
+// Split on whitespace, keeping "quoted parts" together (quotes are preserved).
+function tokenize(input: string): string[] {
+  return input.match(/-?(?:[^\s"]*"[^"]*"?|[^\s"]+)/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  const out: ParsedQuery = { text: '', sources: [], tags: [], phrases: [], exclude: [] };
+  const words: string[] = [];
+
+  for (const token of tokenize(input)) {
+    if (token.length > 1 && token.startsWith('-')) {
+      const term = unquote(token.slice(1)).trim();
+      if (term) out.exclude.push(term);
+      continue;
+    }
+
+    if (token.startsWith('"')) {
+      const phrase = unquote(token).trim();
+      if (phrase) {
+        out.phrases.push(phrase);
+        words.push(phrase);
+      }
+      continue;
+    }
+
+    const colon = token.indexOf(':');
+    const key = colon > 0 ? token.slice(0, colon).toLowerCase() : '';
+    if (!OPERATORS.has(key)) {
+      words.push(token);
+      continue;
+    }
+
+    const value = unquote(token.slice(colon + 1)).trim();
+    if (!value) continue;
+
+    switch (key) {
+      case 'source':
+        out.sources.push(...value.split(',').map((v) => v.trim()).filter(Boolean));
+        break;
+      case 'tag':
+        out.tags.push(...value.split(',').map((v) => v.trim()).filter(Boolean));
+        break;
+      case 'after':
+        out.since = operatorDate(key, value);
+        break;
+      case 'before':
+        out.until = operatorDate(key, value);
+        break;
+      case 'entity':
+        out.entityId = value;
+        break;
+    }
+  }
+
+  out.text = words.join(' ').trim();
+  return out;
+}
+
+// after: / before: take anything Date understands, e.g. 2026-01-01.
+function operatorDate(key: string, value: string): string {
+  if (Number.isNaN(new Date(value).getTime())) throw new ValidationError(`Invalid ${key}: date: ${value}`);
+  return value;
+}
+
+function merge(a?: string[], b?: string[]): string[] | undefined {
+  const all = [...(a ?? []), ...(b ?? [])];
+  return all.length ? Array.from(new Set(all)) : undefined;
+}
+
+// Move inline operators out of req.query into structured fields. Fields set
+// explicitly on the request win over inline ones; lists are merged.
+export function applyQuerySyntax(req: SearchRequest): SearchRequest {
+  const parsed = parseQuery(req.query);
+
+  return {
+    ...req,
+    query: parsed.text,
+    sources: merge(req.sources, parsed.sources),
+    tags: merge(req.tags, parsed.tags),
+    phrases: merge(req.phrases, parsed.phrases),
+    exclude: merge(req.exclude, parsed.exclude),
+    since: req.since ?? parsed.since,
+    until: req.until ?? parsed.until,
+    entityId: req.entityId ?? parsed.entityId,
+  };
+}
+
+// A comma-separated list from a query param or saved search (e.g. source=whatsapp,github).
+export function splitList(value?: string | null): string[] | undefined {
+  const list = (value ?? '').split(',').map((v) => v.trim()).filter(Boolean);
+  return list.length ? list : undefined;
+}
@@ -0,0 +1,128 @@
+// src/rerank.ts
+// Optional rerank stage run on retrieved candidates before the final cut:
+// an external cross-encoder, recency decay, per-source weights and tag boosts.
+// Every step has a factor f, applied additively: the score moves by (f - 1)
+// times the largest score magnitude among the candidates. Multiplying instead
+// would push negative scores (e.g. cosine) down for f > 1. The steps that
+// changed a score are recorded on the candidate, so it can be explained.
+
+import { createdAtMs, type ScoreBoost } from './search.js';
+
+export type RerankOptions = {
+  // Recency: factor = floor + (1 - floor) * 0.5^(age / half-life)
+  recencyHalfLifeDays?: number;  // unset or 0: no recency decay
+  recencyFloor?: number;         // factor for very old items (default 0.5)
+  sourceWeights?: Record<string, number>;  // e.g. { whatsapp: 1.2, github: 0.8 }
+  tagBoosts?: Record<string, number>;      // applied for each tag the item has
+  // Cross-encoder: POST { query, documents } to this URL, expects { scores }
+  // (same order, 0..1 or logits). factor = 1 - w + 2w * relevance.
+  crossEncoderUrl?: string;
+  crossEncoderWeight?: number;   // w, 0..1 (default 0.5)
+  crossEncoderTopN?: number;     // only the first N candidates are sent (default 30)
+  crossEncoderTimeoutMs?: number;
+};
+
+// What rerank needs from a candidate row (an `items` row for memories).
+export type Rerankable = {
+  row: { text?: string; source?: string; tags?: string; created_at?: unknown };
+  score: number;
+  baseScore?: number;
+  boosts?: ScoreBoost[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function rerankEnabled(options?: RerankOptions): boolean {
+  if (!options) return false;
+  return !!(options.recencyHalfLifeDays || options.crossEncoderUrl
+    || Object.keys(options.sourceWeights ?? {}).length || Object.keys(options.tagBoosts ?? {}).length);
+}
+
+// Rescores `candidates` in place; the caller re-sorts them. A failing
+// cross-encoder is skipped and reported, never fatal.
+export async function rerank(query: string, candidates: Rerankable[], options: RerankOptions, now = Date.now()): Promise<{ degraded?: string }> {
+  let degraded: string | undefined;
+  const scale = Math.max(0, ...candidates.map((c) => Math.abs(c.score))) || 1;
+  const applyBoost = (c: Rerankable, boost: ScoreBoost) => boostScore(c, boost, scale);
+
+  if (options.crossEncoderUrl) {
+    try {
+      await crossEncode(query, candidates, options, applyBoost);
+    } catch (err: any) {
+      degraded = `Cross-encoder at ${options.crossEncoderUrl} failed (${err?.message ?? err}); results are not cross-encoder reranked`;
+    }
+  }
+
+  for (const c of candidates) {
+    if (options.recencyHalfLifeDays) {
+      const at = createdAtMs(c.row.created_at);
+      if (at !== null) {
+        const ageDays = Math.max(0, now - at) / DAY_MS;
+        const floor = options.recencyFloor ?? 0.5;
+        const factor = floor + (1 - floor) * Math.pow(0.5, ageDays / options.recencyHalfLifeDays);
+        applyBoost(c, { name: 'recency', factor, detail: `${Math.round(ageDays)}d old, half-life ${options.recencyHalfLifeDays}d` });
+      }
+    }
+
+    const source = String(c.row.source ?? '').toLowerCase();
+    const sourceWeight = lookup(options.sourceWeights, source);
+    if (sourceWeight !== undefined) applyBoost(c, { name: 'source', factor: sourceWeight, detail: source });
+
+    for (const tag of String(c.row.tags ?? '').split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)) {
+      const tagBoost = lookup(options.tagBoosts, tag);
+      if (tagBoost !== undefined) applyBoost(c, { name: 'tag', factor: tagBoost, detail: tag });
+    }
+  }
+
+  return { degraded };
+}
+
+async function crossEncode(query: string, candidates: Rerankable[], options: RerankOptions, applyBoost: (c: Rerankable, boost: ScoreBoost) => void) {
+  const top = candidates.slice(0, options.crossEncoderTopN ?? 30);
+  if (!top.length) return;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.crossEncoderTimeoutMs ?? 2000);
+  let scores: unknown;
+  try {
+    const resp = await fetch(options.crossEncoderUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, documents: top.map((c) => String(c.row.text ?? '')) }),
+      signal: controller.signal,
+    });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    scores = ((await resp.json()) as { scores?: unknown }).scores;
+  } catch (err: any) {
+    throw err?.name === 'AbortError' ? new Error(`timed out after ${options.crossEncoderTimeoutMs ?? 2000}ms`) : err;
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!Array.isArray(scores) || scores.length !== top.length || scores.some((s) => typeof s !== 'number')) {
+    throw new Error('expected { scores: number[] } with one score per document');
+  }
+  // Logits are squashed so that both conventions map to 0..1.
+  const logits = (scores as number[]).some((s) => s < 0 || s > 1);
+  const w = Math.min(1, Math.max(0, options.crossEncoderWeight ?? 0.5));
+  top.forEach((c, i) => {
+    const relevance = logits ? 1 / (1 + Math.exp(-(scores as number[])[i])) : (scores as number[])[i];
+    applyBoost(c, { name: 'cross_encoder', factor: 1 - w + 2 * w * relevance, detail: `relevance ${relevance.toFixed(3)}` });
+  });
+}
+
+function boostScore(c: Rerankable, boost: ScoreBoost, scale: number) {
+  if (boost.factor === 1 || !Number.isFinite(boost.factor)) return;
+  c.baseScore ??= c.score;
+  c.score += (boost.factor - 1) * scale;
+  (c.boosts ??= []).push({ ...boost, factor: Number(boost.factor.toFixed(4)) });
+}
+
+// Keys are matched case-insensitively.
+function lookup(weights: Record<string, number> | undefined, key: string): number | undefined {
+  if (!weights || !key) return undefined;
+  for (const [k, v] of Object.entries(weights)) {
+    if (k.toLowerCase() === key && typeof v === 'number') return v;
+  }
+  return undefined;
+}
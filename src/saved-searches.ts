@@ -0,0 +1,135 @@
+// src/saved-searches.ts
+// Named saved searches and a rolling history of executed searches, persisted
+// in ClawScope's local store so they survive a browser change.
+
+import type Database from 'better-sqlite3';
+
+import { ValidationError } from './errors.js';
+import { openLocalStore } from './local-store.js';
+import { parseSearchMode } from './search.js';
+
+const PARAM_KEYS = ['q', 'mode', 'kind', 'source', 'tag', 'entity', 'since', 'until'] as const;
+
+// Search page state, with the same keys as the page URL (/?q=…&mode=…), so
+// that any entry can be turned back into a deep link.
+export type SearchParams = Partial<Record<(typeof PARAM_KEYS)[number], string>>;
+
+export type SavedSearch = {
+  id: number;
+  name: string;
+  params: SearchParams;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SearchHistoryEntry = {
+  id: number;
+  params: SearchParams;
+  results: number;     // results on the first page
+  executed_at: string;
+};
+
+// Keep only known, non-empty keys, in a stable order. Throws ValidationError
+// for a mode or date a search would reject.
+export function normalizeSearchParams(input: any): SearchParams {
+  const params: SearchParams = {};
+  for (const key of PARAM_KEYS) {
+    const value = input?.[key];
+    if (value !== undefined && value !== null && String(value).trim()) params[key] = String(value).trim();
+  }
+
+  // 'compare' is the search page's side-by-side view, saved like a mode.
+  if (params.mode && params.mode !== 'compare') parseSearchMode(params.mode);
+  for (const key of ['since', 'until'] as const) {
+    if (params[key] && Number.isNaN(new Date(params[key]!).getTime())) throw new ValidationError(`Invalid ${key} date: ${params[key]}`);
+  }
+  return params;
+}
+
+export class SavedSearchStore {
+  private db?: Database.Database;
+
+  constructor(private dbPath?: string, private maxHistory = 200) {}
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const db = openLocalStore(this.dbPath);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        params TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS search_history (
+        id INTEGER PRIMARY KEY,
+        params TEXT NOT NULL,
+        results INTEGER NOT NULL,
+        executed_at TEXT NOT NULL
+      );
+    `);
+    this.db = db;
+    return db;
+  }
+
+  listSaved(): SavedSearch[] {
+    const rows = this.open().prepare('SELECT * FROM saved_searches ORDER BY name COLLATE NOCASE').all() as any[];
+    return rows.map(toSaved);
+  }
+
+  getSaved(id: number): SavedSearch | null {
+    const row = this.open().prepare('SELECT * FROM saved_searches WHERE id = ?').get(id) as any;
+    return row ? toSaved(row) : null;
+  }
+
+  // Saving under an existing name replaces that search.
+  save(name: string, params: SearchParams): SavedSearch {
+    const trimmed = name.trim();
+    if (!trimmed) throw new ValidationError('Saved search needs a name');
+    const normalized = normalizeSearchParams(params);
+    if (!Object.keys(normalized).length) throw new ValidationError('Nothing to save: empty query and filters');
+
+    const now = new Date().toISOString();
+    const db = this.open();
+    db.prepare(`
+      INSERT INTO saved_searches (name, params, created_at, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET params = excluded.params, updated_at = excluded.updated_at
+    `).run(trimmed, JSON.stringify(normalized), now, now);
+    return toSaved(db.prepare('SELECT * FROM saved_searches WHERE name = ?').get(trimmed));
+  }
+
+  deleteSaved(id: number): boolean {
+    return this.open().prepare('DELETE FROM saved_searches WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Re-running the latest search only refreshes its entry.
+  recordHistory(params: SearchParams, results: number) {
+    const normalized = JSON.stringify(normalizeSearchParams(params));
+    const now = new Date().toISOString();
+    const db = this.open();
+
+    const last = db.prepare('SELECT id, params FROM search_history ORDER BY id DESC LIMIT 1').get() as any;
+    if (last && last.params === normalized) {
+      db.prepare('UPDATE search_history SET results = ?, executed_at = ? WHERE id = ?').run(results, now, last.id);
+    } else {
+      db.prepare('INSERT INTO search_history (params, results, executed_at) VALUES (?, ?, ?)').run(normalized, results, now);
+    }
+
+    db.prepare('DELETE FROM search_history WHERE id NOT IN (SELECT id FROM search_history ORDER BY id DESC LIMIT ?)').run(this.maxHistory);
+  }
+
+  listHistory(limit = 50): SearchHistoryEntry[] {
+    const rows = this.open().prepare('SELECT * FROM search_history ORDER BY id DESC LIMIT ?').all(limit) as any[];
+    return rows.map((row) => ({ id: row.id, params: JSON.parse(row.params), results: row.results, executed_at: row.executed_at }));
+  }
+
+  clearHistory() {
+    this.open().prepare('DELETE FROM search_history').run();
+  }
+}
+
+function toSaved(row: any): SavedSearch {
+  return { id: row.id, name: row.name, params: JSON.parse(row.params), created_at: row.created_at, updated_at: row.updated_at };
+}
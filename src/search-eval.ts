@@ -0,0 +1,215 @@
+// src/search-eval.ts
+// Search quality evaluation: a golden set of queries with the memory ids they
+// should return, run against every SearchMode and a grid of semanticWeight / k
+// values, scored with recall@k, MRR and nDCG@k (binary relevance).
+
+import fs from 'node:fs';
+
+import { ValidationError } from './errors.js';
+import { OfflineSqliteSearchBackend, type OfflineBackendOptions } from './offline-sqlite-backend.js';
+import type { SearchBackend, SearchMode } from './search.js';
+
+export type GoldenQuery = {
+  query: string;
+  expected: string[];  // memory ids that count as relevant
+  note?: string;
+};
+
+export type GoldenSet = { queries: GoldenQuery[] };
+
+export type EvalConfig = {
+  mode: SearchMode;
+  semanticWeight?: number;  // hybrid only
+  k?: number;               // candidate pool, hybrid only
+};
+
+export type EvalMetrics = {
+  recall: number;  // mean recall@cutoff
+  mrr: number;     // mean reciprocal rank of the first relevant hit (0 past the cutoff)
+  ndcg: number;    // mean nDCG@cutoff
+  degraded: number;  // queries answered in a lower mode than requested
+  errors: number;    // queries that failed (scored 0)
+  took_ms: number;
+};
+
+export type EvalQueryResult = {
+  query: string;
+  recall: number;
+  rr: number;
+  ndcg: number;
+  returned: string[];
+  error?: string;
+};
+
+export type EvalRun = { config: EvalConfig; metrics: EvalMetrics; queries: EvalQueryResult[] };
+
+export type EvalReport = {
+  cutoff: number;
+  queries: number;
+  runs: EvalRun[];
+  // Highest nDCG, then MRR, among the runs with no degraded or failed query:
+  // those measured a fallback, not the config. null when every run has some.
+  best: EvalConfig | null;
+};
+
+export type EvalOptions = {
+  cutoff?: number;             // the k in recall@k / nDCG@k (default 10)
+  modes?: SearchMode[];
+  semanticWeights?: number[];  // hybrid grid
+  ks?: number[];               // hybrid grid
+};
+
+// Accepts { queries: [...] } or a bare list; rejects entries without expected ids.
+export function parseGoldenSet(data: unknown): GoldenSet {
+  const list = Array.isArray(data) ? data : (data as any)?.queries;
+  if (!Array.isArray(list) || !list.length) throw new ValidationError('Golden set needs a non-empty "queries" list');
+
+  const queries = list.map((entry: any, i: number): GoldenQuery => {
+    const query = typeof entry?.query === 'string' ? entry.query.trim() : '';
+    const expected = Array.isArray(entry?.expected) ? entry.expected.map(String).filter(Boolean) : [];
+    if (!query || !expected.length) throw new ValidationError(`Golden query #${i + 1} needs "query" and a non-empty "expected" list`);
+    return { query, expected, note: typeof entry.note === 'string' ? entry.note : undefined };
+  });
+  return { queries };
+}
+
+export function loadGoldenSet(filePath: string): GoldenSet {
+  if (!fs.existsSync(filePath)) throw new ValidationError(`Golden set not found: ${filePath}`);
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err: any) {
+    throw new ValidationError(`Golden set ${filePath} is not valid JSON: ${err?.message ?? err}`);
+  }
+  return parseGoldenSet(data);
+}
+
+// Lexical and semantic ignore semanticWeight and k, so they run once each.
+export function evalConfigs(options: EvalOptions = {}): EvalConfig[] {
+  const configs: EvalConfig[] = [];
+  for (const mode of options.modes ?? ['lexical', 'semantic', 'hybrid']) {
+    if (mode !== 'hybrid') {
+      configs.push({ mode });
+      continue;
+    }
+    for (const semanticWeight of options.semanticWeights ?? [0.3, 0.5, 0.7, 0.9]) {
+      for (const k of options.ks ?? [40, 80, 160]) configs.push({ mode, semanticWeight, k });
+    }
+  }
+  return configs;
+}
+
+// semanticWeight is a backend option: one memory backend per weight, all
+// sharing `options` (db, embedding provider, rerank).
+export function memoryBackendsByWeight(options: OfflineBackendOptions = {}): (config: EvalConfig) => SearchBackend {
+  const backends = new Map<number | undefined, SearchBackend>();
+  return (config) => {
+    let backend = backends.get(config.semanticWeight);
+    if (!backend) {
+      backend = new OfflineSqliteSearchBackend({ ...options, semanticWeight: config.semanticWeight ?? options.semanticWeight });
+      backends.set(config.semanticWeight, backend);
+    }
+    return backend;
+  };
+}
+
+export async function runEval(set: GoldenSet, backendFor: (config: EvalConfig) => SearchBackend, options: EvalOptions = {}): Promise<EvalReport> {
+  const cutoff = options.cutoff ?? 10;
+  const runs: EvalRun[] = [];
+
+  for (const config of evalConfigs(options)) {
+    const backend = backendFor(config);
+    const started = Date.now();
+    let degraded = 0;
+
+    const queries: EvalQueryResult[] = [];
+    for (const golden of set.queries) {
+      try {
+        const req = { query: golden.query, mode: config.mode, k: config.k, limit: cutoff, kinds: ['memory'] };
+        let returned: string[];
+        if (backend.searchWithMeta) {
+          const resp = await backend.searchWithMeta(req);
+          if (resp.mode_used !== resp.mode_requested) degraded++;
+          returned = resp.items.map((i) => i.id);
+        } else {
+          returned = (await backend.search(req)).map((i) => i.id);
+        }
+        queries.push({ query: golden.query, ...scoreRanking(returned, golden.expected, cutoff), returned });
+      } catch (err: any) {
+        queries.push({ query: golden.query, recall: 0, rr: 0, ndcg: 0, returned: [], error: err?.message ?? String(err) });
+      }
+    }
+
+    runs.push({
+      config,
+      metrics: {
+        recall: round(mean(queries.map((q) => q.recall))),
+        mrr: round(mean(queries.map((q) => q.rr))),
+        ndcg: round(mean(queries.map((q) => q.ndcg))),
+        degraded,
+        errors: queries.filter((q) => q.error).length,
+        took_ms: Date.now() - started,
+      },
+      queries,
+    });
+  }
+
+  const ranked = runs
+    .filter((r) => !r.metrics.degraded && !r.metrics.errors)
+    .sort((a, b) => b.metrics.ndcg - a.metrics.ndcg || b.metrics.mrr - a.metrics.mrr);
+  return { cutoff, queries: set.queries.length, runs, best: ranked[0]?.config ?? null };
+}
+
+export function scoreRanking(returned: string[], expected: string[], cutoff: number): { recall: number; rr: number; ndcg: number } {
+  const relevant = new Set(expected);
+  const top = returned.slice(0, cutoff);
+
+  const hits = top.filter((id) => relevant.has(id)).length;
+  const first = top.findIndex((id) => relevant.has(id));
+  const dcg = top.reduce((sum, id, i) => sum + (relevant.has(id) ? 1 / Math.log2(i + 2) : 0), 0);
+  let idcg = 0;
+  for (let i = 0; i < Math.min(relevant.size, cutoff); i++) idcg += 1 / Math.log2(i + 2);
+
+  return {
+    recall: relevant.size ? hits / relevant.size : 0,
+    rr: first === -1 ? 0 : 1 / (first + 1),
+    ndcg: idcg ? dcg / idcg : 0,
+  };
+}
+
+// Plain-text table, one row per config, best first.
+export function formatEvalReport(report: EvalReport): string {
+  const label = (c: EvalConfig) => c.mode + (c.semanticWeight !== undefined ? ` w=${c.semanticWeight}` : '') + (c.k !== undefined ? ` k=${c.k}` : '');
+  const runs = [...report.runs].sort((a, b) => b.metrics.ndcg - a.metrics.ndcg || b.metrics.mrr - a.metrics.mrr);
+
+  const table = [
+    ['config', `recall@${report.cutoff}`, 'MRR', `nDCG@${report.cutoff}`, 'degraded', 'errors', 'ms'],
+    ...runs.map((r) => [
+      label(r.config),
+      r.metrics.recall.toFixed(3),
+      r.metrics.mrr.toFixed(3),
+      r.metrics.ndcg.toFixed(3),
+      String(r.metrics.degraded),
+      String(r.metrics.errors),
+      String(r.metrics.took_ms),
+    ]),
+  ];
+  const widths = table[0].map((_, col) => Math.max(...table.map((row) => row[col].length)));
+
+  const lines = [
+    `${report.queries} queries, cutoff ${report.cutoff}`,
+    '',
+    ...table.map((row) => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd()),
+  ];
+  if (report.best) lines.push('', `best: ${label(report.best)}`);
+  else if (report.runs.length) lines.push('', 'best: none, every configuration had degraded or failed queries');
+  return lines.join('\n');
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,308 @@
+// src/search-watches.ts
+// Watches: saved searches re-run on an interval against the memory backend.
+// New matching memories (created after the highest created_at seen so far)
+// raise a dashboard notification and fire the optional hooks.
+
+import { spawn } from 'node:child_process';
+import type Database from 'better-sqlite3';
+
+import { ValidationError } from './errors.js';
+import { openLocalStore } from './local-store.js';
+import { applyQuerySyntax, splitList } from './query-syntax.js';
+import type { SavedSearch, SavedSearchStore } from './saved-searches.js';
+import { createdAtMs, type SearchBackend, type SearchItem, type SearchMode } from './search.js';
+
+export type SearchWatch = {
+  saved_id: number;
+  name: string;
+  interval_s: number;
+  enabled: boolean;
+  webhook_url: string | null;   // loopback only, POSTed a JSON payload
+  last_seen_at: string | null;  // highest created_at among matches so far
+  last_run_at: string | null;
+  last_error: string | null;
+};
+
+export type WatchNotification = {
+  id: number;
+  saved_id: number;
+  name: string;
+  count: number;
+  item_ids: string[];
+  preview: string;
+  created_at: string;
+  read: boolean;
+};
+
+export type SearchWatcherOptions = {
+  dbPath?: string;
+  tickMs?: number;            // how often due watches are looked for
+  hookCommand?: () => string | undefined;  // shell command run on new matches (from settings, never from HTTP)
+  hookTimeoutMs?: number;
+  // Cosine similarity a semantic-only match needs to count. Semantic search
+  // ranks every memory, so without a floor any new memory would match.
+  minSimilarity?: () => number | undefined;  // default: DEFAULT_MIN_SIMILARITY
+};
+
+export const DEFAULT_MIN_SIMILARITY = 0.6;
+
+const MIN_INTERVAL_S = 30;
+
+export class SearchWatcher {
+  private db?: Database.Database;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private saved: SavedSearchStore,
+    private backend: SearchBackend,
+    private options: SearchWatcherOptions = {},
+  ) {}
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const db = openLocalStore(this.options.dbPath);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS search_watches (
+        saved_id INTEGER PRIMARY KEY,
+        interval_s INTEGER NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        webhook_url TEXT,
+        last_seen_at TEXT,
+        last_run_at TEXT,
+        last_error TEXT
+      );
+      CREATE TABLE IF NOT EXISTS watch_notifications (
+        id INTEGER PRIMARY KEY,
+        saved_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        item_ids TEXT NOT NULL,
+        preview TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        read INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    this.db = db;
+    return db;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => console.error('[Watches] Tick failed:', err?.message ?? err));
+    }, this.options.tickMs ?? 30_000);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  list(): SearchWatch[] {
+    const rows = this.open().prepare('SELECT * FROM search_watches ORDER BY saved_id').all() as any[];
+    return rows.flatMap((row) => {
+      const saved = this.saved.getSaved(row.saved_id);
+      return saved ? [toWatch(row, saved)] : [];
+    });
+  }
+
+  // Updating a watch keeps last_seen_at, so changing its settings does not re-notify.
+  upsert(savedId: number, settings: { interval_s?: number; enabled?: boolean; webhook_url?: string | null }): SearchWatch {
+    const saved = this.saved.getSaved(savedId);
+    if (!saved) throw new ValidationError(`Saved search not found: ${savedId}`);
+
+    const webhook = settings.webhook_url ? checkWebhookUrl(settings.webhook_url) : null;
+    const interval = Math.max(MIN_INTERVAL_S, Math.floor(settings.interval_s ?? 300));
+    const db = this.open();
+    db.prepare(`
+      INSERT INTO search_watches (saved_id, interval_s, enabled, webhook_url) VALUES (?, ?, ?, ?)
+      ON CONFLICT(saved_id) DO UPDATE SET interval_s = excluded.interval_s, enabled = excluded.enabled, webhook_url = excluded.webhook_url
+    `).run(savedId, interval, settings.enabled === false ? 0 : 1, webhook);
+    return toWatch(db.prepare('SELECT * FROM search_watches WHERE saved_id = ?').get(savedId), saved);
+  }
+
+  remove(savedId: number): boolean {
+    return this.open().prepare('DELETE FROM search_watches WHERE saved_id = ?').run(savedId).changes > 0;
+  }
+
+  notifications(options: { unreadOnly?: boolean; limit?: number } = {}): WatchNotification[] {
+    const rows = this.open().prepare(`
+      SELECT * FROM watch_notifications ${options.unreadOnly ? 'WHERE read = 0' : ''} ORDER BY id DESC LIMIT ?
+    `).all(options.limit ?? 50) as any[];
+    return rows.map((row) => ({ ...row, item_ids: JSON.parse(row.item_ids), read: !!row.read }));
+  }
+
+  markRead(ids?: number[]) {
+    const db = this.open();
+    if (!ids) {
+      db.prepare('UPDATE watch_notifications SET read = 1').run();
+      return;
+    }
+    const mark = db.prepare('UPDATE watch_notifications SET read = 1 WHERE id = ?');
+    for (const id of ids) mark.run(id);
+  }
+
+  // Runs every enabled watch whose interval has elapsed, one at a time.
+  async tick(now = Date.now()) {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const watch of this.list()) {
+        if (!watch.enabled) continue;
+        const lastRun = watch.last_run_at ? Date.parse(watch.last_run_at) : 0;
+        if (now - lastRun < watch.interval_s * 1000) continue;
+        await this.run(watch.saved_id);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // The first run only records a baseline; later runs notify on newer matches.
+  async run(savedId: number): Promise<WatchNotification | null> {
+    const db = this.open();
+    const row = db.prepare('SELECT * FROM search_watches WHERE saved_id = ?').get(savedId) as any;
+    const saved = this.saved.getSaved(savedId);
+    if (!row || !saved) return null;
+
+    const lastSeenMs = row.last_seen_at ? Date.parse(row.last_seen_at) : undefined;
+    const now = new Date().toISOString();
+
+    try {
+      const items = await this.backend.search(applyQuerySyntax({
+        query: saved.params.q ?? '',
+        // 'compare' is a search page view, not a mode
+        mode: saved.params.mode === 'compare' ? undefined : saved.params.mode as SearchMode | undefined,
+        kinds: ['memory'],
+        sources: splitList(saved.params.source),
+        tags: splitList(saved.params.tag),
+        entityId: saved.params.entity,
+        since: latestDate(saved.params.since, row.last_seen_at),
+        until: saved.params.until,
+        limit: 50,
+      }));
+
+      const minSimilarity = this.options.minSimilarity?.() ?? DEFAULT_MIN_SIMILARITY;
+      const matches = items.filter((item) => isMatch(item, minSimilarity));
+      const dated = matches.map((item) => ({ item, ms: createdAtMs(item.created_at) })).filter((d) => d.ms !== null) as { item: SearchItem; ms: number }[];
+      // With no match yet, the baseline is "now" so that the first match does notify.
+      const maxSeen = Math.max(lastSeenMs ?? Date.parse(now), ...dated.map((d) => d.ms));
+      const fresh = lastSeenMs === undefined ? [] : dated.filter((d) => d.ms > lastSeenMs).map((d) => d.item);
+
+      db.prepare('UPDATE search_watches SET last_seen_at = ?, last_run_at = ?, last_error = NULL WHERE saved_id = ?')
+        .run(new Date(maxSeen).toISOString(), now, savedId);
+
+      if (!fresh.length) return null;
+      return await this.notify(saved, row.webhook_url, fresh);
+    } catch (err: any) {
+      db.prepare('UPDATE search_watches SET last_run_at = ?, last_error = ? WHERE saved_id = ?').run(now, err?.message ?? String(err), savedId);
+      return null;
+    }
+  }
+
+  private async notify(saved: SavedSearch, webhookUrl: string | null, items: SearchItem[]): Promise<WatchNotification> {
+    const db = this.open();
+    const createdAt = new Date().toISOString();
+    const ids = items.map((i) => i.id);
+    const preview = items[0].snippet.slice(0, 200);
+    const info = db.prepare(`
+      INSERT INTO watch_notifications (saved_id, name, count, item_ids, preview, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(saved.id, saved.name, items.length, JSON.stringify(ids), preview, createdAt);
+
+    const payload = { watch: saved.name, saved_id: saved.id, params: saved.params, count: items.length, items };
+    await Promise.all([
+      webhookUrl ? this.postWebhook(webhookUrl, payload) : undefined,
+      this.runCommand(payload),
+    ]);
+
+    return { id: Number(info.lastInsertRowid), saved_id: saved.id, name: saved.name, count: items.length, item_ids: ids, preview, created_at: createdAt, read: false };
+  }
+
+  // Hook failures are logged, never fatal: the notification is already stored.
+  private async postWebhook(url: string, payload: unknown) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.hookTimeoutMs ?? 5000);
+    try {
+      const resp = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+      if (!resp.ok) console.error(`[Watches] Webhook ${url} returned ${resp.status}`);
+    } catch (err: any) {
+      console.error(`[Watches] Webhook ${url} failed:`, err?.message ?? err);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // The JSON payload is written to the command's stdin.
+  private runCommand(payload: { watch: string; count: number }): Promise<void> {
+    const command = this.options.hookCommand?.();
+    if (!command) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const child = spawn(command, {
+        shell: true,
+        stdio: ['pipe', 'ignore', 'inherit'],
+        timeout: this.options.hookTimeoutMs ?? 10_000,
+        env: { ...process.env, CLAWSCOPE_WATCH_NAME: payload.watch, CLAWSCOPE_WATCH_COUNT: String(payload.count) },
+      });
+      child.on('error', (err) => {
+        console.error('[Watches] Hook command failed:', err.message);
+        resolve();
+      });
+      child.on('close', (code) => {
+        if (code) console.error(`[Watches] Hook command exited with ${code}`);
+        resolve();
+      });
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(JSON.stringify(payload));
+    });
+  }
+}
+
+function toWatch(row: any, saved: SavedSearch): SearchWatch {
+  return {
+    saved_id: row.saved_id,
+    name: saved.name,
+    interval_s: row.interval_s,
+    enabled: !!row.enabled,
+    webhook_url: row.webhook_url ?? null,
+    last_seen_at: row.last_seen_at ?? null,
+    last_run_at: row.last_run_at ?? null,
+    last_error: row.last_error ?? null,
+  };
+}
+
+// Webhooks are meant for local automation; anything else is refused.
+function checkWebhookUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ValidationError(`Invalid webhook URL: ${value}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const loopback = host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+  if (!/^https?:$/.test(url.protocol) || !loopback) {
+    throw new ValidationError('Webhook URL must be http(s) on localhost');
+  }
+  return url.toString();
+}
+
+// Lexical and hybrid results all matched the query's words, and filter-only
+// listings carry no score; a semantic-only result must be similar enough.
+function isMatch(item: SearchItem, minSimilarity: number): boolean {
+  if (item.score_embed === undefined || item.score_fts !== undefined) return true;
+  return item.score_embed >= minSimilarity;
+}
+
+function latestDate(a?: string | null, b?: string | null): string | undefined {
+  if (!a || !b) return a ?? b ?? undefined;
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
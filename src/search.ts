@@ -1,8 +1,23 @@
 // src/search.ts
 // Abstraction layer for global search, independent from the actual backend
 
+import crypto from 'node:crypto';
+
+import { ValidationError } from './errors.js';
+
 export type SearchMode = 'lexical' | 'semantic' | 'hybrid';
 
+export const SEARCH_MODES: readonly SearchMode[] = ['lexical', 'semantic', 'hybrid'];
+
+// A mode from user input (query param, saved search); empty means the default.
+export function parseSearchMode(value: string | null | undefined): SearchMode | undefined {
+  if (!value) return undefined;
+  if (!SEARCH_MODES.includes(value as SearchMode)) {
+    throw new ValidationError(`Invalid mode: ${value} (expected ${SEARCH_MODES.join(', ')})`);
+  }
+  return value as SearchMode;
+}
+
 export type SearchRequest = {
   query: string;
   mode?: SearchMode;   // default: 'hybrid'
@@ -10,26 +25,188 @@ export type SearchRequest = {
   k?: number;          // default: 80
   kinds?: string[];    // e.g. ['memory', 'doc'] – v1: ['memory']
   sources?: string[];  // e.g. ['whatsapp', 'github']
+  since?: string;      // ISO date/time, inclusive lower bound on created_at
+  until?: string;      // ISO date/time, exclusive upper bound on created_at
+  tags?: string[];     // every listed tag must be present, e.g. ['work']
+  entityId?: string;   // items.entity_id
+  phrases?: string[];  // exact phrases that must appear in the text
+  exclude?: string[];  // words/phrases that must not appear in the text
+  explain?: boolean;   // attach SearchItem.explain debug info
+  facets?: boolean;    // compute SearchResponse.facets over the matching set
+  offset?: number;     // skip this many ranked results (default: 0)
+  cursor?: string;     // SearchResponse.next_cursor of the previous page; overrides offset
+  dedupe?: boolean;    // collapse near-duplicate results, one item per cluster
+  rerank?: boolean;    // false skips the backend's rerank stage, if it has one
+  asOf?: number;       // epoch ms that time-dependent scores (recency) are computed at; default: now
+};
+
+// Why an item got its score (returned when SearchRequest.explain is set).
+export type SearchExplain = {
+  mode: SearchMode;
+  fts_query?: string;           // escaped FTS5 query actually run
+  fts_rank?: number;            // raw bm25() rank, lower is better
+  semantic_similarity?: number; // cosine similarity with the query embedding
+  semantic_weight?: number;     // weight of the semantic score (hybrid only)
+  lexical_position?: number;    // 1-based position among lexical candidates
+  semantic_position?: number;   // 1-based position by similarity
+  rrf_ranks?: Record<string, number>; // CompositeSearchBackend: 1-based rank per backend name
+};
+
+// One rerank step that changed an item's score: score = score_base plus
+// (factor - 1) × the largest score magnitude among the candidates, per step.
+export type ScoreBoost = {
+  name: 'recency' | 'source' | 'tag' | 'cross_encoder';
+  factor: number;
+  detail?: string;     // e.g. '12d old, half-life 30d', the source or tag matched
 };
 
+// [start, end) character offsets of a query match within SearchItem.snippet
+export type Highlight = [number, number];
+
 export type SearchItem = {
   id: string;
   kind: string;        // 'memory' | 'doc' | 'convo' | ...
   source?: string;
   title?: string;
   snippet: string;
+  highlights?: Highlight[];
   score: number;
   score_fts?: number;
   score_embed?: number;
+  score_base?: number;          // score before reranking, when boosts applied
+  score_boosts?: ScoreBoost[];
   created_at?: string; // ISO
   payload?: any;
+  explain?: SearchExplain;
+  // Near-duplicates collapsed into this item (SearchRequest.dedupe)
+  duplicates?: number;
+  duplicate_ids?: string[];
+  duplicate_items?: SearchItem[];
+};
+
+export type FacetCount = { value: string; count: number };
+
+// Counts over the whole matching set, not just the returned page: every FTS
+// match in lexical and hybrid mode, every filtered item with a vector in
+// semantic mode.
+export type SearchFacets = {
+  source: FacetCount[];
+  tag: FacetCount[];
+  month: FacetCount[];   // 'YYYY-MM' of created_at, newest first
+  entity: FacetCount[];
+};
+
+// Search results plus metadata about how they were produced.
+export type SearchResponse = {
+  items: SearchItem[];
+  took_ms: number;
+  mode_requested: SearchMode;
+  mode_used: SearchMode;      // differs from mode_requested when degraded
+  total_candidates: number;   // rows considered before the final cut
+  degraded?: string;          // why results are worse than requested, e.g. embeddings unavailable
+  facets?: SearchFacets;
+  next_cursor?: string;       // pass as SearchRequest.cursor to get the next page
 };
 
 export interface SearchBackend {
   search(req: SearchRequest): Promise<SearchItem[]>;
+  searchWithMeta?(req: SearchRequest): Promise<SearchResponse>;
+  findSimilar?(id: string, limit?: number): Promise<SearchItem[] | null>;
   getCategories?(): Promise<{ tag: string; count: number }[]>;
 }
 
+// Order of every ranked list that is paged: highest score first, ties by id.
+export type RankKey = { score: number; id: string };
+
+export function compareRanked(a: RankKey, b: RankKey): number {
+  return b.score - a.score || a.id.localeCompare(b.id);
+}
+
+// Where a page starts: strictly after the cursor's last item if there is a
+// cursor, else at req.offset. `offset` is then the last item's position when
+// the cursor was issued, used only to bound how deep a backend ranks. `asOf`
+// is the time scores are computed at, fixed for all pages of a search.
+export type PagePosition = { offset: number; after?: RankKey; asOf: number };
+
+// Cursors are opaque to clients: base64url({ s: score, i: id, o: offset,
+// t: asOf, f: fingerprint }) of the last item returned. Resuming after
+// (score, id) rather than at an offset means that items ranked above it in the
+// meantime neither repeat nor push results past the next page; carrying the
+// time keeps recency-boosted scores from drifting between pages. The
+// fingerprint ties a cursor to the query, mode and filters it was issued for.
+function requestFingerprint(req: SearchRequest): string {
+  const { limit, offset, cursor, explain, facets, asOf, ...rest } = req;
+  const stable = JSON.stringify(rest, Object.keys(rest).sort());
+  return crypto.createHash('sha1').update(stable).digest('hex').slice(0, 12);
+}
+
+export function encodeCursor(req: SearchRequest, last: RankKey, offset: number, asOf: number): string {
+  return Buffer.from(JSON.stringify({ s: last.score, i: last.id, o: offset, t: asOf, f: requestFingerprint(req) })).toString('base64url');
+}
+
+export function resolvePosition(req: SearchRequest): PagePosition {
+  if (!req.cursor) return { offset: Math.max(0, req.offset ?? 0), asOf: req.asOf ?? Date.now() };
+
+  let decoded: { s?: unknown; i?: unknown; o?: unknown; t?: unknown; f?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(req.cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+  const { s, i, o, t, f } = decoded ?? {};
+  if (typeof s !== 'number' || !Number.isFinite(s) || typeof i !== 'string' || !Number.isInteger(o) || (o as number) < 0
+    || typeof t !== 'number' || !Number.isFinite(t)) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (f !== requestFingerprint(req)) throw new ValidationError('Cursor does not belong to this search');
+  return { offset: o as number, after: { score: s, id: i }, asOf: t };
+}
+
+// How many rows to rank for a page: one past it, to know whether there is a
+// next one, and one page more when resuming, since rows ranked above the
+// cursor since it was issued push it down.
+export function rankingDepth(position: PagePosition, limit: number): number {
+  return position.offset + limit + 1 + (position.after ? limit : 0);
+}
+
+// The requested page of a list sorted by compareRanked, and the cursor to the next one.
+export function paginate<T>(req: SearchRequest, ranked: T[], position: PagePosition, limit: number, key: (row: T) => RankKey): { page: T[]; nextCursor?: string } {
+  const after = position.after;
+  let start = position.offset;
+  if (after) {
+    start = ranked.findIndex((row) => compareRanked(key(row), after) > 0);
+    if (start < 0) start = ranked.length;
+  }
+
+  const page = ranked.slice(start, start + limit);
+  const nextCursor = page.length && ranked.length > start + limit ? encodeCursor(req, key(page[page.length - 1]), start + limit, position.asOf) : undefined;
+  return { page, nextCursor };
+}
+
+// SearchItem.created_at and memory rows' created_at: an ISO string, or epoch
+// milliseconds for older rows.
+export function createdAtMs(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const ms = typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isNaN(ms) ? null : ms;
+}
+
+// Envelope for any backend; backends without searchWithMeta get timing only.
+export async function searchWithMeta(backend: SearchBackend, req: SearchRequest): Promise<SearchResponse> {
+  if (backend.searchWithMeta) return backend.searchWithMeta(req);
+
+  const started = Date.now();
+  const items = await backend.search(req);
+  const mode = req.mode ?? 'hybrid';
+  return {
+    items,
+    took_ms: Date.now() - started,
+    mode_requested: mode,
+    mode_used: mode,
+    total_candidates: items.length,
+  };
+}
+
 /**
  * Placeholder implementation used while OpenClaw offline-sqlite backend
  * is not yet wired. This lets us build the UI + HTTP API without depending
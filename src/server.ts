@@ -3,6 +3,7 @@
 
 import http from 'node:http';
 import type { SearchBackend } from './search.js';
+import { applyQuerySyntax } from './query-syntax.js';
 
 // Dynamic import helper to load TS backend without .js shim
 let backendPromise: Promise<SearchBackend> | null = null;
@@ -155,7 +156,7 @@ const server = http.createServer(async (req, res) => {
 
     try {
       const backend = await ensureBackend();
-      const items = await backend.search({ query: q, mode, limit });
+      const items = await backend.search(applyQuerySyntax({ query: q, mode, limit }));
       res.statusCode = 200;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify(items, null, 2));
@@ -0,0 +1,92 @@
+// src/snippet.ts
+// Match-centered snippets with highlight offsets, shared by the search backends
+// (memories, facts, tasks and sessions, docs).
+
+import type { Highlight } from './search.js';
+
+export type Snippet = {
+  snippet: string;
+  highlights: Highlight[]; // [start, end) offsets into `snippet`
+};
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Lowercased words of a free-text query, as they would be matched in a snippet.
+export function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return Array.from(new Set(words.filter((w) => w.length > 1)));
+}
+
+// Word-prefix matches (like FTS prefix/stem matching), extended to the end of
+// the matched word, sorted and non-overlapping.
+function findMatches(text: string, terms: string[]): Highlight[] {
+  const lower = text.toLowerCase();
+  const found: Highlight[] = [];
+
+  for (const term of terms) {
+    let from = 0;
+    let idx: number;
+    while ((idx = lower.indexOf(term, from)) !== -1) {
+      from = idx + term.length;
+      if (idx > 0 && WORD_CHAR.test(lower[idx - 1])) continue;
+      let end = idx + term.length;
+      while (end < lower.length && WORD_CHAR.test(lower[end])) end++;
+      found.push([idx, end]);
+    }
+  }
+
+  found.sort((a, b) => a[0] - b[0]);
+  const merged: Highlight[] = [];
+  for (const m of found) {
+    const last = merged[merged.length - 1];
+    if (last && m[0] <= last[1]) last[1] = Math.max(last[1], m[1]);
+    else merged.push([m[0], m[1]]);
+  }
+  return merged;
+}
+
+// Pick the maxLen window containing the most matches, with a little leading
+// context, snapped to word boundaries.
+export function buildSnippet(text: string, terms: string[] = [], maxLen = 220): Snippet {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  const matches = findMatches(singleLine, terms);
+
+  if (singleLine.length <= maxLen) {
+    return { snippet: singleLine, highlights: matches };
+  }
+
+  if (!matches.length) {
+    return { snippet: singleLine.slice(0, maxLen) + '…', highlights: [] };
+  }
+
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0; i < matches.length; i++) {
+    const windowEnd = matches[i][0] + maxLen;
+    let count = 0;
+    for (let j = i; j < matches.length && matches[j][1] <= windowEnd; j++) count++;
+    if (count > bestCount) {
+      best = i;
+      bestCount = count;
+    }
+  }
+
+  let start = Math.max(0, matches[best][0] - Math.floor(maxLen / 6));
+  if (start > 0) {
+    const space = singleLine.indexOf(' ', start);
+    if (space !== -1 && space < matches[best][0]) start = space + 1;
+  }
+  let end = Math.min(singleLine.length, start + maxLen);
+  if (end < singleLine.length) {
+    const space = singleLine.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < singleLine.length ? '…' : '';
+  const highlights = matches
+    .filter((m) => m[0] >= start && m[1] <= end)
+    .map((m): Highlight => [m[0] - start + prefix.length, m[1] - start + prefix.length]);
+
+  return { snippet: prefix + singleLine.slice(start, end) + suffix, highlights };
+}
@@ -1,5 +1,9 @@
 // src/tasks-backend.ts
-// Minimal stub backend for Mission Control scheduled tasks / calendar view.
+// Scheduled tasks for the Mission Control tasks / calendar view and task search.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 export type TaskKind = 'cron_job' | 'reminder' | 'heartbeat';
 
@@ -19,6 +23,61 @@ export interface TaskBackend {
   listTasks(): Promise<ScheduledTask[]>;
 }
 
+export type CronJobsTaskOptions = {
+  jobsPath?: string;  // default: ~/.openclaw/cron/jobs.json (what /tasks serves)
+};
+
+// The gateway's cron jobs, read from its jobs file on every call (it is small,
+// and the gateway rewrites it as jobs run). A missing or unreadable file means
+// no tasks.
+export class CronJobsTaskBackend implements TaskBackend {
+  private jobsPath: string;
+
+  constructor(options: CronJobsTaskOptions = {}) {
+    this.jobsPath = options.jobsPath ?? path.join(os.homedir(), '.openclaw', 'cron', 'jobs.json');
+  }
+
+  async listTasks(): Promise<ScheduledTask[]> {
+    let data: any;
+    try {
+      if (!fs.existsSync(this.jobsPath)) return [];
+      data = JSON.parse(fs.readFileSync(this.jobsPath, 'utf-8'));
+    } catch {
+      return [];
+    }
+    const jobs: any[] = Array.isArray(data) ? data : (data?.jobs ?? []);
+    return jobs.filter((job) => job && job.id).map(cronJobToTask);
+  }
+}
+
+function cronJobToTask(job: any): ScheduledTask {
+  const nextRunMs = job.state?.nextRunAtMs ?? job.nextRunAtMs;
+  return {
+    id: String(job.id),
+    kind: job.schedule?.kind === 'at' ? 'reminder' : 'cron_job',
+    name: String(job.name || job.id),
+    nextRunAt: typeof nextRunMs === 'number' ? new Date(nextRunMs).toISOString() : (job.nextRunAt ?? null),
+    schedule: formatSchedule(job.schedule),
+    active: job.enabled !== false,
+    source: 'cron',
+    owner: job.agentId || job.owner || undefined,
+    description: job.description || undefined,
+  };
+}
+
+// Same wording as the v1 tasks view.
+function formatSchedule(schedule: any): string {
+  if (!schedule) return 'unknown';
+  if (typeof schedule === 'string') return schedule;
+  if (schedule.kind === 'cron') return [schedule.expr || 'cron', schedule.tz].filter(Boolean).join(' ');
+  if (schedule.kind === 'every') {
+    const mins = Math.round((schedule.everyMs || 0) / 60000);
+    return mins ? `every ${mins}min` : 'every';
+  }
+  if (schedule.kind === 'at') return schedule.at ? `once at ${schedule.at}` : 'once';
+  return 'unknown';
+}
+
 export class InMemoryTaskBackend implements TaskBackend {
   private tasks: ScheduledTask[];
 
@@ -26,9 +85,8 @@ export class InMemoryTaskBackend implements TaskBackend {
     this.tasks = seed && seed.length ? seed : this.defaultSeed();
   }
 
-  // TODO: replace this stub with a backend that calls the real OpenClaw cron API
-  // and maps cron jobs -> ScheduledTask. For now, we keep a small seed snapshot
-  // so that the UI can be exercised.
+  // A small seed snapshot so that the UI can be exercised without a gateway;
+  // CronJobsTaskBackend reads the real jobs.
   private defaultSeed(): ScheduledTask[] {
     const now = Date.now();
     const iso = (deltaMs: number) => new Date(now + deltaMs).toISOString();
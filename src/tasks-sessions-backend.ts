@@ -0,0 +1,149 @@
+// src/tasks-sessions-backend.ts
+// SearchBackends over Mission Control data: scheduled tasks (kind 'task') and
+// agent sessions (kind 'convo'). Both lists are small, so they are scanned in
+// memory on every query.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ValidationError } from './errors.js';
+import { compareRanked, paginate, resolvePosition, type RankKey, type SearchBackend, type SearchItem, type SearchRequest } from './search.js';
+import { buildSnippet, queryTerms } from './snippet.js';
+import type { TaskBackend } from './tasks-backend.js';
+
+// One searchable record, before scoring.
+type Entry = {
+  id: string;
+  title: string;
+  fields: string[];    // searched text besides the title
+  source?: string;
+  date?: string;       // ISO, used for since/until
+  payload: any;
+};
+
+export class TaskSearchBackend implements SearchBackend {
+  constructor(private tasks: TaskBackend) {}
+
+  async search(req: SearchRequest): Promise<SearchItem[]> {
+    if (req.kinds?.length && !req.kinds.includes('task')) return [];
+
+    const tasks = await this.tasks.listTasks();
+    const entries = tasks.map((t): Entry => ({
+      id: t.id,
+      title: t.name,
+      fields: [t.description ?? '', t.schedule, t.owner ?? '', t.kind],
+      source: t.source,
+      date: t.nextRunAt ?? undefined,
+      payload: t,
+    }));
+    return searchEntries(entries, 'task', req);
+  }
+}
+
+export type SessionSearchOptions = {
+  sessionsPath?: string;  // default: ~/.openclaw/agents/main/sessions/sessions.json
+};
+
+export class SessionSearchBackend implements SearchBackend {
+  private sessionsPath: string;
+
+  constructor(options: SessionSearchOptions = {}) {
+    this.sessionsPath = options.sessionsPath ?? path.join(os.homedir(), '.openclaw', 'agents', 'main', 'sessions', 'sessions.json');
+  }
+
+  async search(req: SearchRequest): Promise<SearchItem[]> {
+    if (req.kinds?.length && !req.kinds.includes('convo')) return [];
+
+    const entries = readSessions(this.sessionsPath).map((s): Entry => ({
+      id: String(s.sessionId ?? s.key),
+      title: String(s.displayName || s.label || s.key || 'Session'),
+      fields: [s.key, s.label, s.channel, s.subject].filter((v) => typeof v === 'string'),
+      source: s.channel ?? undefined,
+      date: toIso(s.updatedAt),
+      payload: s,
+    }));
+    return searchEntries(entries, 'convo', req);
+  }
+}
+
+// sessions.json is either a list, { sessions: [...] }, or a map keyed by session key.
+function readSessions(filePath: string): any[] {
+  let data: any;
+  try {
+    if (!fs.existsSync(filePath)) return [];
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return [];
+  }
+  if (Array.isArray(data)) return data;
+  if (Array.isArray(data?.sessions)) return data.sessions;
+  if (data && typeof data === 'object') {
+    return Object.entries(data).map(([key, value]: [string, any]) => ({ key, ...value }));
+  }
+  return [];
+}
+
+function toIso(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const date = new Date(value as any);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function dateBound(value: string, name: string): number {
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) throw new ValidationError(`Invalid ${name} date: ${value}`);
+  return ms;
+}
+
+// Score = share of query terms found anywhere, plus a bonus for title matches.
+// Tasks and sessions carry no tags or entity, so those filters exclude them.
+function searchEntries(entries: Entry[], kind: string, req: SearchRequest): SearchItem[] {
+  const terms = queryTerms(req.query);
+  const hasFilter = !!(req.sources?.length || req.since || req.until || req.phrases?.length || req.exclude?.length);
+  if (req.tags?.length || req.entityId) return [];
+  if (!terms.length && !hasFilter) return [];
+
+  const sources = (req.sources ?? []).map((s) => s.trim().toLowerCase());
+  const since = req.since ? dateBound(req.since, 'since') : undefined;
+  const until = req.until ? dateBound(req.until, 'until') : undefined;
+
+  const scored: { entry: Entry; text: string; score: number }[] = [];
+  for (const entry of entries) {
+    const text = [entry.title, ...entry.fields].filter(Boolean).join(' — ');
+    const lower = text.toLowerCase();
+
+    if (sources.length && !sources.includes((entry.source ?? '').toLowerCase())) continue;
+    if (since !== undefined || until !== undefined) {
+      const at = entry.date ? new Date(entry.date).getTime() : NaN;
+      if (Number.isNaN(at) || (since !== undefined && at < since) || (until !== undefined && at >= until)) continue;
+    }
+    if ((req.phrases ?? []).some((p) => !lower.includes(p.toLowerCase()))) continue;
+    if ((req.exclude ?? []).some((x) => lower.includes(x.toLowerCase()))) continue;
+
+    const title = entry.title.toLowerCase();
+    const matched = terms.filter((t) => lower.includes(t)).length;
+    if (terms.length && !matched) continue;
+    const inTitle = terms.filter((t) => title.includes(t)).length;
+    const score = terms.length ? (matched + 0.5 * inTitle) / (1.5 * terms.length) : 0;
+    scored.push({ entry, text, score });
+  }
+
+  const key = (s: { entry: Entry; score: number }): RankKey => ({ score: s.score, id: s.entry.id });
+  scored.sort((a, b) => compareRanked(key(a), key(b)));
+
+  return paginate(req, scored, resolvePosition(req), req.limit ?? 20, key).page.map(({ entry, text, score }) => {
+    const { snippet, highlights } = buildSnippet(text, terms);
+    return {
+      id: entry.id,
+      kind,
+      source: entry.source,
+      title: entry.title,
+      snippet,
+      highlights,
+      score,
+      created_at: entry.date,
+      payload: entry.payload,
+    } satisfies SearchItem;
+  });
+}
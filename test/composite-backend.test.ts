@@ -0,0 +1,59 @@
+// test/composite-backend.test.ts
+// Paging through fused results with a cursor.
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { CompositeSearchBackend } from '../src/composite-backend.js';
+import type { SearchItem, SearchRequest } from '../src/search.js';
+
+// Ids are only unique within a kind.
+const key = (item: SearchItem) => `${item.kind}:${item.id}`;
+
+function listBackend(kind: string, ids: string[]) {
+  return {
+    search: async (req: SearchRequest): Promise<SearchItem[]> => ids
+      .map((id, i) => ({ id, kind, source: kind, snippet: id, score: 1 - i / 10 }))
+      .slice(0, req.limit),
+  };
+}
+
+test('cursor pages follow the fused ranking without repeats', async () => {
+  const composite = new CompositeSearchBackend([
+    { name: 'memory', backend: listBackend('memory', ['m1', 'm2', 'm3']), kinds: ['memory'] },
+    { name: 'docs', backend: listBackend('doc', ['d1', 'd2']), kinds: ['doc'] },
+  ]);
+
+  const all = (await composite.search({ query: 'x', limit: 10 })).map(key);
+  const paged: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await composite.searchWithMeta({ query: 'x', limit: 2, cursor });
+    paged.push(...response.items.map(key));
+    cursor = response.next_cursor;
+  } while (cursor);
+
+  assert.equal(all.length, 5);
+  assert.deepEqual(paged, all);
+});
+
+test('merged month facets stay newest first', async () => {
+  const facetBackend = (month: { value: string; count: number }[]) => ({
+    search: async () => [],
+    searchWithMeta: async () => ({
+      items: [], took_ms: 0, mode_requested: 'hybrid' as const, mode_used: 'hybrid' as const, total_candidates: 0,
+      facets: { source: [], tag: [], month, entity: [] },
+    }),
+  });
+  const composite = new CompositeSearchBackend([
+    { name: 'memory', backend: facetBackend([{ value: '2026-03', count: 1 }, { value: '2026-01', count: 9 }]), kinds: ['memory'] },
+    { name: 'docs', backend: facetBackend([{ value: '2026-02', count: 4 }, { value: '2026-01', count: 1 }]), kinds: ['doc'] },
+  ]);
+
+  const { facets } = await composite.searchWithMeta({ query: 'x', facets: true });
+  assert.deepEqual(facets!.month, [
+    { value: '2026-03', count: 1 },
+    { value: '2026-02', count: 4 },
+    { value: '2026-01', count: 10 },
+  ]);
+});
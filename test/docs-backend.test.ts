@@ -0,0 +1,61 @@
+// test/docs-backend.test.ts
+// The docs index: which files it picks up and how it is searched, over a
+// temporary directory and store.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+import { DocsSearchBackend } from '../src/docs-backend.js';
+import { closeLocalStores } from '../src/local-store.js';
+
+describe('DocsSearchBackend file selection', () => {
+  let dir: string;
+  let notes: string;
+  let docs: DocsSearchBackend;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawscope-test-'));
+    notes = path.join(dir, 'workspace');
+    fs.mkdirSync(notes);
+    fs.writeFileSync(path.join(notes, 'HEARTBEAT.md'), '# Heartbeat\nCheck the deployment queue.\n');
+    fs.writeFileSync(path.join(notes, 'deploy.py'), 'def rotate_keys():\n    return []\n');
+    fs.writeFileSync(path.join(notes, 'logo.png'), 'not text');
+    docs = new DocsSearchBackend({ dbPath: path.join(dir, 'clawscope.sqlite') });
+  });
+
+  after(() => {
+    closeLocalStores();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('indexes notes and source files by default', async () => {
+    const report = await docs.reindex([notes]);
+    assert.equal(report.files, 2);
+    const hits = await docs.search({ query: 'rotate_keys', mode: 'lexical' });
+    assert.ok(hits.some((h) => h.payload.path.endsWith('deploy.py')));
+  });
+
+  test('a configured extension list replaces the default and prunes the index', async () => {
+    const report = await docs.reindex([notes], { extensions: ['MD'] });
+    assert.equal(report.files, 1);
+    assert.equal(report.removed, 1);
+    assert.deepEqual(await docs.search({ query: 'rotate_keys', mode: 'lexical' }), []);
+  });
+
+  test('phrase-only queries match', async () => {
+    const hits = await docs.search({ query: '', phrases: ['deployment queue'], mode: 'lexical' });
+    assert.equal(hits.length, 1);
+    assert.ok(hits[0].payload.path.endsWith('HEARTBEAT.md'));
+  });
+
+  test('semantic search without embeddings falls back to lexical, flagged', async () => {
+    const offline = new DocsSearchBackend({ dbPath: path.join(dir, 'clawscope.sqlite'), embed: async () => null });
+    const response = await offline.searchWithMeta({ query: 'heartbeat', mode: 'semantic' });
+    assert.equal(response.mode_used, 'lexical');
+    assert.match(response.degraded!, /lexical-only/);
+    assert.equal(response.items.length, 1);
+  });
+});
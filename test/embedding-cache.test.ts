@@ -0,0 +1,43 @@
+// test/embedding-cache.test.ts
+// Query embedding cache keys, over a temporary local store.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+import { EmbeddingCache, normalizeQuery } from '../src/embedding-cache.js';
+import { closeLocalStores } from '../src/local-store.js';
+
+test('normalizeQuery collapses whitespace and keeps case', () => {
+  assert.equal(normalizeQuery('  Where   does\tAlice\nwork '), 'Where does Alice work');
+  assert.notEqual(normalizeQuery('Apple'), normalizeQuery('apple'));
+});
+
+describe('EmbeddingCache', () => {
+  let dir: string;
+  let dbPath: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawscope-test-'));
+    dbPath = path.join(dir, 'clawscope.sqlite');
+  });
+
+  after(() => {
+    closeLocalStores();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('differently cased queries are separate entries, on disk too', () => {
+    const cache = new EmbeddingCache({ dbPath });
+    cache.set('model', 'Apple  pie', [1, 0]);
+    assert.deepEqual(cache.get('model', 'Apple pie'), [1, 0]);
+    assert.equal(cache.get('model', 'apple pie'), undefined);
+
+    const restarted = new EmbeddingCache({ dbPath });
+    assert.deepEqual(restarted.get('model', ' Apple pie '), [1, 0]);
+    assert.equal(restarted.get('model', 'APPLE PIE'), undefined);
+    assert.deepEqual(restarted.stats(), { hits: 1, misses: 1, memory_hits: 0, disk_hits: 1, entries: 1 });
+  });
+});
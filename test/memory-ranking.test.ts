@@ -0,0 +1,40 @@
+// test/memory-ranking.test.ts
+// Pins the memory scoring formulas, so that a change to them is deliberate
+// (they reimplement the plugin's recall() ranking, see src/memory-ranking.ts).
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { cosineSimilarity, decodeEmbedding, hybridScore, lexicalScore } from '../src/memory-ranking.js';
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+test('lexicalScore negates bm25 so that higher is better', () => {
+  assert.equal(lexicalScore(-4.2), 4.2);
+  assert.ok(lexicalScore(-5) > lexicalScore(-1));
+});
+
+test('hybridScore weighs cosine against the pool-normalized lexical score', () => {
+  assertClose(hybridScore(0.5, 2, 4, 0.7), 0.7 * 0.5 + 0.3 * 0.5);
+  assertClose(hybridScore(1, 4, 4, 0.7), 1);
+  // No comparable vector: lexical part only.
+  assertClose(hybridScore(undefined, 4, 4, 0.7), 0.3);
+  // Degenerate pool (every bm25 at 0) does not divide by zero.
+  assertClose(hybridScore(0.5, 0, 0, 0.5), 0.25);
+});
+
+test('cosineSimilarity', () => {
+  assert.equal(cosineSimilarity([1, 0], [1, 0]), 1);
+  assert.equal(cosineSimilarity([1, 0], [0, 1]), 0);
+  assert.equal(cosineSimilarity([1, 0], [-1, 0]), -1);
+  assert.equal(cosineSimilarity([0, 0], [1, 0]), 0);
+});
+
+test('decodeEmbedding reads Float32 blobs and JSON arrays', () => {
+  assert.deepEqual(decodeEmbedding(Buffer.from(new Float32Array([0.5, -1]).buffer)), [0.5, -1]);
+  assert.deepEqual(decodeEmbedding('[0.25, 1]'), [0.25, 1]);
+  assert.equal(decodeEmbedding('not json'), null);
+  assert.equal(decodeEmbedding(null), null);
+});
@@ -0,0 +1,184 @@
+// test/offline-sqlite-backend.test.ts
+// Memory search over a temporary database. The hashing embedder stands in for
+// Ollama, so the semantic and hybrid paths run without any service.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+import { HashingEmbeddingProvider } from '../src/embedding-provider.js';
+import { ValidationError } from '../src/errors.js';
+import { closeMemoryDbs, getMemoryWriter } from '../src/memory-db.js';
+import { hybridScore } from '../src/memory-ranking.js';
+import { OfflineSqliteSearchBackend } from '../src/offline-sqlite-backend.js';
+
+const MEMORIES = [
+  { id: 'deploy', source: 'github', text: 'Deployment pipeline for the staging cluster', tags: 'work', created_at: '2026-03-01T09:00:00.000Z' },
+  { id: 'budget', source: 'whatsapp', text: 'Budget review with Alice on Monday', tags: 'work', created_at: '2026-03-02T09:00:00.000Z' },
+  { id: 'budget-sheet', source: 'github', text: 'Review the budget spreadsheet before the call', tags: 'work', created_at: '2026-03-03T09:00:00.000Z' },
+  { id: 'groceries', source: 'whatsapp', text: 'Grocery list: apples, bread and cheese', tags: 'home', created_at: '2026-03-04T09:00:00.000Z' },
+  { id: 'dentist', source: 'whatsapp', text: 'Dentist appointment on Tuesday afternoon', tags: 'home', created_at: '2026-03-05T09:00:00.000Z' },
+];
+
+describe('OfflineSqliteSearchBackend with the hashing embedder', () => {
+  let dir: string;
+  let db: any;
+  let backend: OfflineSqliteSearchBackend;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawscope-test-'));
+    const dbPath = path.join(dir, 'offline.sqlite');
+
+    // The writer creates the plugin's schema; items carry no stored embedding,
+    // so every vector comes from the hashing embedder.
+    db = getMemoryWriter(dbPath);
+    const insert = db.prepare('INSERT INTO items (id, created_at, source, text, tags) VALUES (?, ?, ?, ?, ?)');
+    for (const m of MEMORIES) insert.run(m.id, m.created_at, m.source, m.text, m.tags);
+
+    backend = new OfflineSqliteSearchBackend({
+      dbPath,
+      embeddingProvider: new HashingEmbeddingProvider(),
+      queryCacheSize: 0,
+    });
+  });
+
+  after(() => {
+    closeMemoryDbs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('semantic search finds a memory with no lexical overlap', async () => {
+    // "deploying" is not a token of any memory, so FTS has nothing…
+    const lexical = await backend.searchWithMeta({ query: 'deploying', mode: 'lexical' });
+    assert.deepEqual(lexical.items, []);
+
+    // …but it shares most of its trigrams with "Deployment".
+    const semantic = await backend.searchWithMeta({ query: 'deploying', mode: 'semantic' });
+    assert.equal(semantic.mode_used, 'semantic');
+    assert.equal(semantic.degraded, undefined);
+    assert.equal(semantic.items[0].id, 'deploy');
+    assert.ok(semantic.items[0].score_embed! > 0);
+  });
+
+  test('semantic ranking is by descending similarity', async () => {
+    const { items } = await backend.searchWithMeta({ query: 'budget review', mode: 'semantic' });
+    assert.equal(items.length, MEMORIES.length);
+    assert.deepEqual(items.slice(0, 2).map((i) => i.id).sort(), ['budget', 'budget-sheet']);
+    for (let i = 1; i < items.length; i++) assert.ok(items[i - 1].score >= items[i].score);
+  });
+
+  test('semantic candidates are limited to the filtered set', async () => {
+    const { items } = await backend.searchWithMeta({ query: 'budget review', mode: 'semantic', sources: ['whatsapp'] });
+    assert.ok(items.length > 0);
+    assert.ok(items.every((i) => i.source === 'whatsapp'));
+    assert.equal(items[0].id, 'budget');
+  });
+
+  test('semantic facets count the whole filtered candidate set, not the page', async () => {
+    const { items, facets } = await backend.searchWithMeta({ query: 'budget review', mode: 'semantic', limit: 1, facets: true });
+    assert.equal(items.length, 1);
+    assert.deepEqual(facets!.source, [{ value: 'whatsapp', count: 3 }, { value: 'github', count: 2 }]);
+
+    const filtered = await backend.searchWithMeta({ query: 'budget review', mode: 'semantic', limit: 1, facets: true, tags: ['home'] });
+    assert.deepEqual(filtered.facets!.tag, [{ value: 'home', count: 2 }]);
+  });
+
+  test('hybrid ranks lexical candidates by the weighted score', async () => {
+    const response = await backend.searchWithMeta({ query: 'budget', mode: 'hybrid' });
+    assert.equal(response.mode_used, 'hybrid');
+    assert.deepEqual(response.items.map((i) => i.id).sort(), ['budget', 'budget-sheet']);
+
+    const maxLexical = Math.max(...response.items.map((i) => i.score_fts!));
+    for (const item of response.items) {
+      assert.ok(item.score_embed !== undefined);
+      assert.ok(Math.abs(item.score - hybridScore(item.score_embed, item.score_fts!, maxLexical, 0.7)) < 1e-9, item.id);
+    }
+    assert.ok(response.items[0].score >= response.items[1].score);
+  });
+
+  test('hybrid does not return memories without a lexical match', async () => {
+    const { items } = await backend.searchWithMeta({ query: 'deploying', mode: 'hybrid' });
+    assert.deepEqual(items, []);
+  });
+
+  test('repeated searches return the same ranking', async () => {
+    const first = await backend.search({ query: 'appointment on Tuesday', mode: 'semantic' });
+    const second = await backend.search({ query: 'appointment on Tuesday', mode: 'semantic' });
+    assert.equal(first[0].id, 'dentist');
+    assert.deepEqual(second.map((i) => [i.id, i.score]), first.map((i) => [i.id, i.score]));
+  });
+
+  test('a cursor resumes after the last item returned, not at an offset', async () => {
+    const req = { query: 'budget review', mode: 'semantic' as const, limit: 2 };
+    const full = await backend.search({ ...req, limit: 10 });
+    const first = await backend.searchWithMeta(req);
+    assert.deepEqual(first.items.map((i) => i.id), full.slice(0, 2).map((i) => i.id));
+    assert.ok(first.next_cursor);
+
+    // A new memory ranked above the first page must not shift the second one.
+    db.prepare('INSERT INTO items (id, created_at, source, text, tags) VALUES (?, ?, ?, ?, ?)')
+      .run('budget-again', '2026-03-06T09:00:00.000Z', 'whatsapp', 'Budget review', 'work');
+    try {
+      const second = await backend.searchWithMeta({ ...req, cursor: first.next_cursor });
+      assert.deepEqual(second.items.map((i) => i.id), full.slice(2, 4).map((i) => i.id));
+    } finally {
+      db.prepare('DELETE FROM items WHERE id = ?').run('budget-again');
+    }
+  });
+
+  test('recency-boosted pages are scored at the time of the first page', async () => {
+    const reranked = new OfflineSqliteSearchBackend({
+      dbPath: path.join(dir, 'offline.sqlite'),
+      embeddingProvider: new HashingEmbeddingProvider(),
+      queryCacheSize: 0,
+      rerank: () => ({ recencyHalfLifeDays: 1, recencyFloor: 0.1 }),
+    });
+    const req = { query: 'budget review', mode: 'semantic' as const, limit: 2 };
+    const realNow = Date.now;
+    let now = Date.parse('2026-03-06T09:00:00.000Z');
+    Date.now = () => now;
+    try {
+      const full = await reranked.search({ ...req, limit: 10 });
+      const first = await reranked.searchWithMeta(req);
+      assert.deepEqual(first.items.map((i) => i.id), full.slice(0, 2).map((i) => i.id));
+
+      // Two days later every score has decayed; the cursor must still resume after the first page.
+      now += 2 * 24 * 60 * 60 * 1000;
+      const second = await reranked.searchWithMeta({ ...req, cursor: first.next_cursor });
+      assert.deepEqual(second.items.map((i) => i.id), full.slice(2, 4).map((i) => i.id));
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  test('filter-only listings page newest first', async () => {
+    const first = await backend.searchWithMeta({ query: '', tags: ['work'], limit: 2 });
+    assert.deepEqual(first.items.map((i) => i.id), ['budget-sheet', 'budget']);
+    const second = await backend.searchWithMeta({ query: '', tags: ['work'], limit: 2, cursor: first.next_cursor });
+    assert.deepEqual(second.items.map((i) => i.id), ['deploy']);
+    assert.equal(second.next_cursor, undefined);
+  });
+
+  test('malformed and foreign cursors are validation errors', async () => {
+    const { next_cursor } = await backend.searchWithMeta({ query: 'budget', mode: 'lexical', limit: 1 });
+    await assert.rejects(backend.search({ query: 'budget', mode: 'lexical', cursor: 'not-a-cursor' }), ValidationError);
+    await assert.rejects(backend.search({ query: 'dentist', mode: 'lexical', cursor: next_cursor }), ValidationError);
+  });
+
+  test('item vectors are embedded once, not on every query', async () => {
+    const provider = new HashingEmbeddingProvider();
+    let calls = 0;
+    const embedSync = provider.embedSync.bind(provider);
+    provider.embedSync = (text) => { calls++; return embedSync(text); };
+    const counting = new OfflineSqliteSearchBackend({ dbPath: path.join(dir, 'offline.sqlite'), embeddingProvider: provider, queryCacheSize: 0 });
+
+    await counting.search({ query: 'budget', mode: 'semantic' });
+    const afterFirst = calls;
+    await counting.search({ query: 'dentist', mode: 'semantic' });
+    // The second query embeds the query text only.
+    assert.equal(afterFirst, MEMORIES.length + 1);
+    assert.equal(calls, afterFirst + 1);
+  });
+});
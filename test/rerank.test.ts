@@ -0,0 +1,94 @@
+// test/rerank.test.ts
+// Rerank boosts, with a local HTTP server standing in for the cross-encoder.
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, test } from 'node:test';
+
+import { rerank, type Rerankable } from '../src/rerank.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-10T00:00:00.000Z');
+
+function candidate(text: string, score: number, extra: Partial<Rerankable['row']> = {}): Rerankable {
+  return { row: { text, ...extra }, score };
+}
+
+test('boosts raise negative scores too', async () => {
+  const fresh = candidate('fresh', -0.2, { created_at: new Date(NOW).toISOString() });
+  const old = candidate('old', -0.15, { created_at: new Date(NOW - 300 * DAY_MS).toISOString() });
+  await rerank('q', [fresh, old], { recencyHalfLifeDays: 10, recencyFloor: 0.5 }, NOW);
+
+  // Multiplying by the old item's ~0.5 factor would have lifted it above the fresh one.
+  assert.equal(fresh.score, -0.2);
+  assert.ok(old.score < -0.2);
+
+  const tagged = candidate('tagged', -0.4, { tags: 'correction' });
+  await rerank('q', [tagged, candidate('other', 0.5)], { tagBoosts: { correction: 1.5 } }, NOW);
+  assert.equal(tagged.baseScore, -0.4);
+  assert.ok(Math.abs(tagged.score - (-0.4 + 0.5 * 0.5)) < 1e-9);
+});
+
+describe('cross-encoder', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: any[] = [];
+  let respond: (body: any) => { status: number; body: unknown };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push(body);
+        const out = respond(body);
+        res.writeHead(out.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(out.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rerank`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('scores move candidates by relevance', async () => {
+    requests = [];
+    // Relevance by keyword, so that the second candidate wins.
+    respond = (body) => ({ status: 200, body: { scores: body.documents.map((d: string) => (d.includes('invoice') ? 0.9 : 0.1)) } });
+    const candidates = [candidate('budget review', 0.6), candidate('invoice for March', 0.5)];
+
+    const { degraded } = await rerank('march invoice', candidates, { crossEncoderUrl: url, crossEncoderWeight: 0.5 }, NOW);
+
+    assert.equal(degraded, undefined);
+    assert.deepEqual(requests, [{ query: 'march invoice', documents: ['budget review', 'invoice for March'] }]);
+    assert.ok(candidates[1].score > candidates[0].score);
+    assert.equal(candidates[1].boosts?.[0].name, 'cross_encoder');
+  });
+
+  test('only the top N candidates are sent, and logits are accepted', async () => {
+    requests = [];
+    respond = (body) => ({ status: 200, body: { scores: body.documents.map(() => 3) } });
+    const candidates = [candidate('a', 3), candidate('b', 2), candidate('c', 1)];
+
+    await rerank('q', candidates, { crossEncoderUrl: url, crossEncoderTopN: 2 }, NOW);
+
+    assert.equal(requests[0].documents.length, 2);
+    assert.ok(candidates[0].score > 3 && candidates[1].score > 2);
+    assert.equal(candidates[2].score, 1);
+  });
+
+  test('a failing cross-encoder degrades instead of failing', async () => {
+    respond = () => ({ status: 500, body: { error: 'model not loaded' } });
+    const candidates = [candidate('a', 1)];
+
+    const { degraded } = await rerank('q', candidates, { crossEncoderUrl: url }, NOW);
+
+    assert.match(degraded!, /HTTP 500/);
+    assert.equal(candidates[0].score, 1);
+  });
+});
@@ -0,0 +1,63 @@
+// test/search-eval.test.ts
+// Eval metrics on a small golden set, and which configuration is reported best.
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { parseGoldenSet, runEval, scoreRanking, type EvalConfig } from '../src/search-eval.js';
+import type { SearchBackend, SearchMode, SearchRequest } from '../src/search.js';
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+}
+
+test('scoreRanking: recall, reciprocal rank and nDCG at the cutoff', () => {
+  // Relevant a and b; a at rank 2, b past the cutoff.
+  const partial = scoreRanking(['x', 'a', 'y', 'b'], ['a', 'b'], 3);
+  assert.equal(partial.recall, 0.5);
+  assert.equal(partial.rr, 0.5);
+  assertClose(partial.ndcg, (1 / Math.log2(3)) / (1 + 1 / Math.log2(3)));
+
+  const perfect = scoreRanking(['a', 'b', 'x'], ['a', 'b'], 3);
+  assert.deepEqual(perfect, { recall: 1, rr: 1, ndcg: 1 });
+
+  assert.deepEqual(scoreRanking(['x', 'y'], ['a'], 10), { recall: 0, rr: 0, ndcg: 0 });
+  assert.deepEqual(scoreRanking([], ['a'], 10), { recall: 0, rr: 0, ndcg: 0 });
+});
+
+// Lexical ranks a relevant id second. Semantic ranks perfectly but reports a
+// fallback to lexical, and hybrid fails: neither measured its own config.
+function stubBackend(config: EvalConfig): SearchBackend {
+  const answers: Record<string, string[]> = { lexical: ['x', 'a', 'b'], semantic: ['a', 'b'] };
+  return {
+    search: async () => [],
+    searchWithMeta: async (req: SearchRequest) => {
+      if (config.mode === 'hybrid') throw new Error('Ollama unavailable');
+      const mode = req.mode as SearchMode;
+      return {
+        items: answers[config.mode].map((id) => ({ id, kind: 'memory', snippet: id, score: 1 })),
+        took_ms: 0,
+        mode_requested: mode,
+        mode_used: 'lexical',
+        total_candidates: 3,
+      };
+    },
+  };
+}
+
+test('runEval never reports a degraded or failing configuration as best', async () => {
+  const set = parseGoldenSet({ queries: [{ query: 'budget', expected: ['a', 'b'] }] });
+  const report = await runEval(set, stubBackend, { cutoff: 3, semanticWeights: [0.7], ks: [80] });
+
+  const byMode = Object.fromEntries(report.runs.map((r) => [r.config.mode, r.metrics]));
+  assert.equal(byMode.semantic.degraded, 1);
+  assert.equal(byMode.semantic.ndcg, 1);
+  assert.equal(byMode.hybrid.errors, 1);
+  assert.deepEqual(report.best, { mode: 'lexical' });
+});
+
+test('malformed golden sets are validation errors', () => {
+  assert.throws(() => parseGoldenSet({ queries: [] }), ValidationError);
+  assert.throws(() => parseGoldenSet([{ query: 'budget', expected: [] }]), ValidationError);
+});
@@ -0,0 +1,66 @@
+// test/search-watches.test.ts
+// Which new results notify, with a stub memory backend and a temporary store.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { closeLocalStores } from '../src/local-store.js';
+import { SavedSearchStore } from '../src/saved-searches.js';
+import type { SearchItem } from '../src/search.js';
+import { SearchWatcher } from '../src/search-watches.js';
+
+describe('SearchWatcher', () => {
+  let dir: string;
+  let saved: SavedSearchStore;
+  let results: SearchItem[] = [];
+  let watcher: SearchWatcher;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawscope-test-'));
+    const dbPath = path.join(dir, 'clawscope.sqlite');
+    saved = new SavedSearchStore(dbPath);
+    watcher = new SearchWatcher(saved, { search: async () => results }, { dbPath });
+  });
+
+  after(() => {
+    closeLocalStores();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const later = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+  test('a semantic watch ignores new memories below the similarity floor', async () => {
+    const { id } = saved.save('budget', { q: 'budget', mode: 'semantic' });
+    watcher.upsert(id, {});
+    results = [];
+    assert.equal(await watcher.run(id), null);
+
+    results = [
+      { id: 'close', kind: 'memory', snippet: 'Budget review', score: 0.8, score_embed: 0.8, created_at: later(1) },
+      { id: 'unrelated', kind: 'memory', snippet: 'Dentist on Tuesday', score: 0.2, score_embed: 0.2, created_at: later(2) },
+    ];
+    const notification = await watcher.run(id);
+    assert.deepEqual(notification?.item_ids, ['close']);
+  });
+
+  test('lexical matches notify whatever their similarity', async () => {
+    const { id } = saved.save('deploy', { q: 'deploy', mode: 'hybrid' });
+    watcher.upsert(id, {});
+    results = [];
+    await watcher.run(id);
+
+    results = [{ id: 'deploy', kind: 'memory', snippet: 'Deploy the cluster', score: 0.3, score_fts: 2, score_embed: 0.1, created_at: later(1) }];
+    assert.deepEqual((await watcher.run(id))?.item_ids, ['deploy']);
+  });
+
+  test('bad watch settings are validation errors', () => {
+    const { id } = saved.save('any', { q: 'any' });
+    assert.throws(() => watcher.upsert(9999, {}), ValidationError);
+    assert.throws(() => watcher.upsert(id, { webhook_url: 'http://example.com/hook' }), ValidationError);
+    assert.throws(() => watcher.upsert(id, { webhook_url: 'not a url' }), ValidationError);
+  });
+});
@@ -0,0 +1,86 @@
+// test/tasks-backend.test.ts
+// Task search over a temporary cron jobs file.
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+
+import { ValidationError } from '../src/errors.js';
+import { CronJobsTaskBackend } from '../src/tasks-backend.js';
+import { TaskSearchBackend } from '../src/tasks-sessions-backend.js';
+
+const JOBS = {
+  version: 1,
+  jobs: [
+    {
+      id: 'job-status',
+      name: 'Moltbook status check',
+      description: 'Ping the API and log latency',
+      agentId: 'moltbook-sre',
+      enabled: true,
+      schedule: { kind: 'cron', expr: '*/30 * * * *' },
+      state: { nextRunAtMs: Date.parse('2026-03-01T10:30:00.000Z') },
+    },
+    {
+      id: 'job-report',
+      name: 'Weekly report',
+      agentId: 'main',
+      enabled: false,
+      schedule: { kind: 'every', everyMs: 7 * 24 * 3600 * 1000 },
+    },
+  ],
+};
+
+describe('CronJobsTaskBackend', () => {
+  let dir: string;
+  let jobsPath: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clawscope-test-'));
+    jobsPath = path.join(dir, 'jobs.json');
+    fs.writeFileSync(jobsPath, JSON.stringify(JOBS));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('maps cron jobs to scheduled tasks', async () => {
+    const [status, report] = await new CronJobsTaskBackend({ jobsPath }).listTasks();
+    assert.deepEqual(status, {
+      id: 'job-status',
+      kind: 'cron_job',
+      name: 'Moltbook status check',
+      nextRunAt: '2026-03-01T10:30:00.000Z',
+      schedule: '*/30 * * * *',
+      active: true,
+      source: 'cron',
+      owner: 'moltbook-sre',
+      description: 'Ping the API and log latency',
+    });
+    assert.equal(report.schedule, 'every 10080min');
+    assert.equal(report.active, false);
+  });
+
+  test('a missing jobs file means no tasks', async () => {
+    assert.deepEqual(await new CronJobsTaskBackend({ jobsPath: path.join(dir, 'none.json') }).listTasks(), []);
+  });
+
+  test('task search matches the name, description, schedule and owner', async () => {
+    const search = new TaskSearchBackend(new CronJobsTaskBackend({ jobsPath }));
+    const ids = async (query: string) => (await search.search({ query })).map((i) => i.id);
+
+    assert.deepEqual(await ids('weekly'), ['job-report']);
+    assert.deepEqual(await ids('latency'), ['job-status']);
+    assert.deepEqual(await ids('10080min'), ['job-report']);
+    assert.deepEqual(await ids('moltbook-sre'), ['job-status']);
+  });
+
+  test('invalid since / until dates are validation errors', async () => {
+    const search = new TaskSearchBackend(new CronJobsTaskBackend({ jobsPath }));
+    await assert.rejects(search.search({ query: 'weekly', since: 'last tuesday' }), ValidationError);
+    await assert.rejects(search.search({ query: 'weekly', until: '2026-13-45' }), ValidationError);
+  });
+});
@@ -0,0 +1,53 @@
+// test/validation.test.ts
+// Caller input errors surface as ValidationError (HTTP 400), also through the
+// composite backend, which otherwise reports a failing source as degraded.
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { CompositeSearchBackend } from '../src/composite-backend.js';
+import { ValidationError } from '../src/errors.js';
+import { buildItemFilter } from '../src/offline-sqlite-backend.js';
+import { applyQuerySyntax } from '../src/query-syntax.js';
+import { normalizeSearchParams } from '../src/saved-searches.js';
+import { InMemorySearchBackend, parseSearchMode } from '../src/search.js';
+
+test('parseSearchMode accepts the known modes only', () => {
+  assert.equal(parseSearchMode('semantic'), 'semantic');
+  assert.equal(parseSearchMode(''), undefined);
+  assert.throws(() => parseSearchMode('fuzzy'), ValidationError);
+});
+
+test('invalid since / until dates are validation errors', () => {
+  assert.throws(() => buildItemFilter({ query: 'x', since: 'last tuesday' }), ValidationError);
+  assert.throws(() => buildItemFilter({ query: 'x', until: '2026-13-45' }), ValidationError);
+  assert.doesNotThrow(() => buildItemFilter({ query: 'x', since: '2026-01-01' }));
+});
+
+test('invalid after: / before: operators are validation errors', () => {
+  assert.throws(() => applyQuerySyntax({ query: 'budget after:yesterday' }), /Invalid after: date: yesterday/);
+  assert.throws(() => applyQuerySyntax({ query: 'budget before:2026-02-30x' }), ValidationError);
+  assert.equal(applyQuerySyntax({ query: 'budget after:2026-01-01' }).since, '2026-01-01');
+});
+
+test('saved search params are validated', () => {
+  assert.deepEqual(normalizeSearchParams({ q: ' budget ', mode: 'compare', extra: 'x' }), { q: 'budget', mode: 'compare' });
+  assert.throws(() => normalizeSearchParams({ q: 'budget', mode: 'fuzzy' }), ValidationError);
+  assert.throws(() => normalizeSearchParams({ q: 'budget', since: 'soon' }), ValidationError);
+});
+
+test('the composite backend rethrows a validation error instead of degrading', async () => {
+  const invalid = { search: async () => { throw new ValidationError('Invalid since date: soon'); } };
+  const composite = new CompositeSearchBackend([
+    { name: 'memory', backend: invalid, kinds: ['memory'] },
+    { name: 'other', backend: new InMemorySearchBackend(), kinds: ['doc'] },
+  ]);
+  await assert.rejects(composite.searchWithMeta({ query: 'x', since: 'soon' }), ValidationError);
+
+  const failing = { search: async () => { throw new Error('disk on fire'); } };
+  const degraded = new CompositeSearchBackend([
+    { name: 'memory', backend: failing, kinds: ['memory'] },
+    { name: 'other', backend: new InMemorySearchBackend(), kinds: ['doc'] },
+  ]);
+  assert.match((await degraded.searchWithMeta({ query: 'x' })).degraded!, /memory: disk on fire/);
+});